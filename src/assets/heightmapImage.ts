@@ -0,0 +1,22 @@
+// Decode a grayscale heightmap (any browser-readable image) into raw pixels for
+// Heightfield.fromImage
+export function loadHeightmapImage(url: string): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Unable to create 2d context'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    image.onerror = () => reject(new Error(`Failed to load heightmap ${url}`));
+    image.src = url;
+  });
+}
@@ -0,0 +1,77 @@
+import './styles/global.css';
+import { SALVO_REFERENCE_CHECKSUM, SalvoBenchmarkResult, runSalvoBenchmark } from './instrumentation/salvoBenchmark';
+import { EnergyCheckResult, runEnergyCheck } from './instrumentation/energyCheck';
+import { RewindCheckResult, runRewindCheck } from './instrumentation/rewindCheck';
+import { ENERGY_DRIFT_TOLERANCE } from './physics/energy';
+
+const appRoot = document.getElementById('app');
+
+if (!appRoot) {
+  throw new Error('Root container missing');
+}
+
+const panel = document.createElement('div');
+panel.className = 'benchmark-panel';
+appRoot.appendChild(panel);
+
+const heading = document.createElement('h1');
+heading.textContent = 'Salvo Benchmark';
+panel.appendChild(heading);
+
+const blurb = document.createElement('p');
+blurb.textContent =
+  'Launches 1,000 projectiles at once and steps the engine through two seconds of 60 Hz frames, timing each ' +
+  `against the frame budget and checksumming every telemetry and energy sample against the reference ${SALVO_REFERENCE_CHECKSUM}. ` +
+  `Then flies the default launch, a bat strike and a thrown rocket under every solver and checks their energy drift ` +
+  `stays within ${(ENERGY_DRIFT_TOLERANCE * 100).toFixed(0)}%, ` +
+  'and seeks the default launch back and forth through its history to check it runs on exactly as a flight left alone.';
+panel.appendChild(blurb);
+
+const run = document.createElement('button');
+run.textContent = 'Run';
+panel.appendChild(run);
+
+const output = document.createElement('pre');
+panel.appendChild(output);
+
+function describe(result: SalvoBenchmarkResult): string {
+  const lines = [
+    `Projectiles   ${result.count}`,
+    `Frames        ${result.frames}`,
+    `Budget        ${result.budget.toFixed(2)} ms`,
+    `Mean frame    ${result.meanFrame.toFixed(2)} ms`,
+    `95th pct      ${result.slowFrame.toFixed(2)} ms  ${result.withinBudget ? 'within budget' : 'OVER BUDGET'}`,
+    `Checksum      ${result.checksum}`
+  ];
+  if (result.identical !== undefined) {
+    lines.push(`Reference     ${result.identical ? 'identical' : `DIFFERS (expected ${SALVO_REFERENCE_CHECKSUM})`}`);
+  }
+  return lines.join('\n');
+}
+
+function describeEnergy(results: EnergyCheckResult[]): string {
+  return results
+    .map(
+      (result) =>
+        `Energy ${result.launch.padEnd(20)}${result.integrator.toUpperCase().padEnd(7)}${(result.worstDrift * 100).toFixed(3)}%  ` +
+        (result.withinTolerance ? 'within tolerance' : 'OVER TOLERANCE')
+    )
+    .join('\n');
+}
+
+function describeRewind(result: RewindCheckResult): string {
+  const steps = `${result.rewound.steps} steps, ${result.uninterrupted.steps} uninterrupted`;
+  return `Rewind ${result.seeks.join(' → ')} s  ${steps}  ${result.identical ? 'identical' : 'DIFFERS'}`;
+}
+
+run.addEventListener('click', () => {
+  run.disabled = true;
+  output.textContent = 'Running…';
+  // Let the page paint before the benchmark holds the main thread
+  requestAnimationFrame(() =>
+    setTimeout(() => {
+      output.textContent = [describe(runSalvoBenchmark()), describeEnergy(runEnergyCheck()), describeRewind(runRewindCheck())].join('\n\n');
+      run.disabled = false;
+    })
+  );
+});
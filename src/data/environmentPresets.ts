@@ -1,5 +1,8 @@
 import * as THREE from 'three';
 import { EnvironmentState } from '../physics/types';
+import { windProfiles } from './windProfiles';
+
+const profile = (id: string) => windProfiles.find((entry) => entry.id === id)?.profile;
 
 export interface EnvironmentPreset extends EnvironmentState {
   id: string;
@@ -13,23 +16,32 @@ export const environmentPresets: EnvironmentPreset[] = [
     label: 'Lunar Night Range',
     description: 'Low atmosphere density, subtle crosswind.',
     gravity: 9.81,
-    airDensity: 0.92,
-    windVector: new THREE.Vector3(2, 0, -1.5)
+    temperature: 268.15, // -5°C
+    pressure: 70800,
+    humidity: 0.2,
+    windVector: new THREE.Vector3(2, 0, -1.5),
+    windProfile: profile('open-grass')
   },
   {
     id: 'damp-harbor',
     label: 'Damp Harbor Air',
     description: 'Dense sea-level air with mild onshore breeze.',
     gravity: 9.81,
-    airDensity: 1.24,
-    windVector: new THREE.Vector3(-3, 0, 1)
+    temperature: 285.15, // 12°C
+    pressure: 101500,
+    humidity: 0.9,
+    windVector: new THREE.Vector3(-3, 0, 1),
+    windProfile: profile('offshore')
   },
   {
     id: 'thin-peak',
     label: 'High-Peak Lab',
     description: 'Thinner atmosphere and gusty winds.',
     gravity: 9.3,
-    airDensity: 0.74,
-    windVector: new THREE.Vector3(4, 0, 0)
+    temperature: 263.15, // -10°C
+    pressure: 56000,
+    humidity: 0.3,
+    windVector: new THREE.Vector3(4, 0, 0),
+    windProfile: profile('veering-layers')
   }
 ];
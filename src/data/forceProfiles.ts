@@ -3,10 +3,10 @@ import { ForceProfile } from '../physics/types';
 
 const DEG2RAD = Math.PI / 180;
 
-function impulseVector(strength: number, elevation: number, azimuth = 0): THREE.Vector3 {
+function impulseVector(strength: number, elevation: number, azimuth = 0, out = new THREE.Vector3()): THREE.Vector3 {
   const elevRad = elevation * DEG2RAD;
   const azimuthRad = azimuth * DEG2RAD;
-  const dir = new THREE.Vector3(
+  const dir = out.set(
     Math.cos(elevRad) * Math.cos(azimuthRad),
     Math.sin(elevRad),
     Math.cos(elevRad) * Math.sin(azimuthRad)
@@ -25,7 +25,7 @@ export const forceProfiles: ForceProfile[] = [
     label: 'Orbital Cannon',
     description: 'Electromagnetic rails deliver a brutal 60 kN kick over 60 milliseconds.',
     duration: 0.06,
-    impulse: (t) => impulseVector(60000 * easeImpulse(t, 0.06), 25, 15),
+    impulse: (t, out) => impulseVector(60000 * easeImpulse(t, 0.06), 25, 15, out),
     spinAxis: new THREE.Vector3(0, 1, 1).normalize(),
     spinRate: 25,
     launchElevation: 25,
@@ -37,7 +37,7 @@ export const forceProfiles: ForceProfile[] = [
     label: 'Midfield Kick',
     description: 'Biomeasured soccer kick with pronounced topspin and longer contact.',
     duration: 0.14,
-    impulse: (t) => impulseVector(15000 * easeImpulse(t, 0.14), 35, 25),
+    impulse: (t, out) => impulseVector(15000 * easeImpulse(t, 0.14), 35, 25, out),
     spinAxis: new THREE.Vector3(1, 0, 1).normalize(),
     spinRate: -45,
     launchElevation: 35,
@@ -49,7 +49,7 @@ export const forceProfiles: ForceProfile[] = [
     label: 'Ash Bat Crank',
     description: 'Heavy bat slap-shot with sharp impulse and backspin lift.',
     duration: 0.085,
-    impulse: (t) => impulseVector(20000 * easeImpulse(t, 0.085), 45, -30),
+    impulse: (t, out) => impulseVector(20000 * easeImpulse(t, 0.085), 45, -30, out),
     spinAxis: new THREE.Vector3(1, 0.5, 0).normalize(),
     spinRate: 55,
     launchElevation: 45,
@@ -61,7 +61,7 @@ export const forceProfiles: ForceProfile[] = [
     label: 'Hand Throw',
     description: 'Human-scale throw with long impulse ramp and subtle pronation.',
     duration: 0.21,
-    impulse: (t) => impulseVector(8000 * easeImpulse(t, 0.21), 50, 35),
+    impulse: (t, out) => impulseVector(8000 * easeImpulse(t, 0.21), 50, 35, out),
     spinAxis: new THREE.Vector3(0.5, 1, 0.3).normalize(),
     spinRate: 38,
     launchElevation: 50,
@@ -73,7 +73,7 @@ export const forceProfiles: ForceProfile[] = [
     label: 'Rail Launcher',
     description: 'Sustained linear motor push that continues downrange for the first 25 meters.',
     duration: 0.12,
-    impulse: (t) => impulseVector(35000 * easeImpulse(t, 0.12), 30, -20),
+    impulse: (t, out) => impulseVector(35000 * easeImpulse(t, 0.12), 30, -20, out),
     spinAxis: new THREE.Vector3(1, 0.5, 1).normalize(),
     spinRate: 30,
     launchElevation: 30,
@@ -0,0 +1,44 @@
+import { ObstacleDefinition } from '../physics/obstacles';
+
+export interface ObstacleLayout {
+  id: string;
+  label: string;
+  description: string;
+  obstacles: ObstacleDefinition[];
+}
+
+// Layouts sit inside the level launch area (40 m around the origin), so every
+// obstacle rests on y = 0 whatever the procedural terrain looks like
+export const obstacleLayouts: ObstacleLayout[] = [
+  {
+    id: 'open-field',
+    label: 'Open Field',
+    description: 'No obstacles, just terrain.',
+    obstacles: []
+  },
+  {
+    id: 'goal-mouth',
+    label: 'Goal Mouth',
+    description: 'Posts, crossbar and a soft back net downrange.',
+    obstacles: [
+      { id: 'post-left', shape: 'cylinder', center: [30, 1.22, -3.66], radius: 0.06, height: 2.44, restitution: 0.6, friction: 0.3 },
+      { id: 'post-right', shape: 'cylinder', center: [30, 1.22, 3.66], radius: 0.06, height: 2.44, restitution: 0.6, friction: 0.3 },
+      { id: 'crossbar', shape: 'box', center: [30, 2.5, 0], size: [0.12, 0.12, 7.44], restitution: 0.6, friction: 0.3 },
+      { id: 'back-net', shape: 'net', center: [32, 1.22, 0], width: 7.32, height: 2.44, yaw: 90, damping: 0.7, restitution: 0.2, friction: 0.9 },
+      { id: 'side-net-left', shape: 'net', center: [31, 1.22, -3.66], width: 2, height: 2.44, yaw: 0, damping: 0.7, restitution: 0.2, friction: 0.9 },
+      { id: 'side-net-right', shape: 'net', center: [31, 1.22, 3.66], width: 2, height: 2.44, yaw: 0, damping: 0.7, restitution: 0.2, friction: 0.9 }
+    ]
+  },
+  {
+    id: 'crate-yard',
+    label: 'Crate Yard',
+    description: 'A concrete wall, scattered crates and a pillar.',
+    obstacles: [
+      { id: 'wall', shape: 'box', center: [24, 2, 0], size: [0.5, 4, 16], restitution: 0.8, friction: 0.7 },
+      { id: 'crate-a', shape: 'box', center: [12, 0.6, -2], size: [1.2, 1.2, 1.2], restitution: 0.5, friction: 0.6 },
+      { id: 'crate-b', shape: 'orientedBox', center: [15, 0.5, 3], size: [1, 1, 1], rotation: [0, 35, 0], restitution: 0.5, friction: 0.6 },
+      { id: 'ramp', shape: 'orientedBox', center: [8, 0.4, 6], size: [4, 0.2, 2], rotation: [0, 0, 12], restitution: 0.4, friction: 0.5 },
+      { id: 'pillar', shape: 'cylinder', center: [18, 3, -6], radius: 0.8, height: 6, restitution: 0.7, friction: 0.5 }
+    ]
+  }
+];
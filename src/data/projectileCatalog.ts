@@ -65,6 +65,41 @@ function makePlasma(palette: MaterialPalette): THREE.Mesh {
   return mesh;
 }
 
+function makeRocket(palette: MaterialPalette, length: number): THREE.Group {
+  const bodyLength = length - 0.25;
+  const body = new THREE.CylinderGeometry(0.09, 0.09, bodyLength, 24);
+  const material = new THREE.MeshStandardMaterial({
+    map: palette.graphite,
+    metalness: 0.7,
+    roughness: 0.3
+  });
+  const bodyMesh = new THREE.Mesh(body, material);
+  bodyMesh.position.y = -0.125;
+  bodyMesh.castShadow = true;
+
+  const nose = new THREE.Mesh(
+    new THREE.ConeGeometry(0.09, 0.25, 24),
+    new THREE.MeshStandardMaterial({ map: palette.copper, metalness: 0.85, roughness: 0.3 })
+  );
+  nose.position.y = bodyLength / 2 + 0.125;
+  bodyMesh.add(nose);
+
+  const finGeometry = new THREE.BoxGeometry(0.015, 0.22, 0.18);
+  const finMaterial = new THREE.MeshStandardMaterial({ color: '#f6b36b', metalness: 0.6, roughness: 0.3 });
+  for (let i = 0; i < 4; i++) {
+    const fin = new THREE.Mesh(finGeometry, finMaterial);
+    fin.position.set(0, -bodyLength / 2 + 0.11, 0);
+    fin.rotation.y = (Math.PI / 2) * i;
+    fin.translateZ(0.14);
+    bodyMesh.add(fin);
+  }
+
+  // Centre the whole rocket on the origin, which is its centre of mass
+  const group = new THREE.Group();
+  group.add(bodyMesh);
+  return group;
+}
+
 export const projectileCatalog: ProjectileDefinition[] = [
   {
     id: 'shell',
@@ -73,14 +108,25 @@ export const projectileCatalog: ProjectileDefinition[] = [
     massKg: 12,
     referenceArea: Math.PI * 0.25 * 0.25,
     dragCoefficient: 0.18,
+    dragModel: 'g7', // Long boat-tailed sabot
+    // Centre of pressure just behind the centre of mass: weakly stable, so the
+    // heavy body lags the curving trajectory with a small yaw of repose
+    aerodynamics: {
+      normalForceSlope: 2.5,
+      pitchMomentSlope: -0.4,
+      pitchDamping: -8,
+      rollDamping: -0.02
+    },
     spinDamping: 0.4,
     restitution: 0.12,
     radius: 0.25,
+    capsuleHalfLength: 0.45,
     // Moment of inertia for solid cylinder/capsule: I = (1/12)m(3r² + h²) transverse, (1/2)mr² axial
+    // The capsule mesh runs along +Y, so Iy is the spin axis
     momentOfInertia: new THREE.Vector3(
       (1/12) * 12 * (3 * 0.25 * 0.25 + 0.9 * 0.9), // Ix
-      (1/12) * 12 * (3 * 0.25 * 0.25 + 0.9 * 0.9), // Iy
-      0.5 * 12 * 0.25 * 0.25 // Iz (axial)
+      0.5 * 12 * 0.25 * 0.25, // Iy (axial)
+      (1/12) * 12 * (3 * 0.25 * 0.25 + 0.9 * 0.9) // Iz
     ),
     meshFactory: makeShell
   },
@@ -127,14 +173,25 @@ export const projectileCatalog: ProjectileDefinition[] = [
     massKg: 4.2,
     referenceArea: Math.PI * 0.12 * 0.12,
     dragCoefficient: 0.12,
+    dragModel: 'g1', // Finned penetrator; blunt base and fins behave like the flat-based G1
+    // Tail fins put the centre of pressure ~0.4 m aft of the centre of mass, a
+    // strong restoring moment that weathervanes the dart into the wind
+    aerodynamics: {
+      normalForceSlope: 8,
+      pitchMomentSlope: -13,
+      pitchDamping: -50,
+      rollDamping: -0.3
+    },
     spinDamping: 0.2,
     restitution: 0.08,
     radius: 0.12,
-    // Moment of inertia for solid cone: I = (3/10)mr² transverse, (3/10)mr² axial
+    capsuleHalfLength: 0.58,
+    // Moment of inertia for solid cone (h = 1.4 m) about its centre of mass:
+    // I = (3/20)mr² + (3/80)mh² transverse, (3/10)mr² axial along +Y
     momentOfInertia: new THREE.Vector3(
+      (3/20) * 4.2 * 0.12 * 0.12 + (3/80) * 4.2 * 1.4 * 1.4,
       (3/10) * 4.2 * 0.12 * 0.12,
-      (3/10) * 4.2 * 0.12 * 0.12,
-      (3/10) * 4.2 * 0.12 * 0.12
+      (3/20) * 4.2 * 0.12 * 0.12 + (3/80) * 4.2 * 1.4 * 1.4
     ),
     meshFactory: makeDart
   },
@@ -155,5 +212,72 @@ export const projectileCatalog: ProjectileDefinition[] = [
       (2/5) * 2.6 * 0.22 * 0.22
     ),
     meshFactory: makePlasma
+  },
+  {
+    id: 'boost-rocket',
+    label: 'Boosted Round',
+    description: 'Finned rocket-assisted round: a hard half-second boost right off the launcher.',
+    massKg: 6,
+    referenceArea: Math.PI * 0.09 * 0.09,
+    dragCoefficient: 0.3,
+    dragModel: 'g1',
+    aerodynamics: {
+      normalForceSlope: 6,
+      pitchMomentSlope: -6,
+      pitchDamping: -30,
+      rollDamping: -0.2
+    },
+    spinDamping: 0.2,
+    restitution: 0.1,
+    radius: 0.09,
+    capsuleHalfLength: 0.41,
+    // Solid cylinder, L = 1 m: I = (1/12)m(3r² + L²) transverse, (1/2)mr² axial
+    momentOfInertia: new THREE.Vector3(
+      (1/12) * 6 * (3 * 0.09 * 0.09 + 1),
+      0.5 * 6 * 0.09 * 0.09,
+      (1/12) * 6 * (3 * 0.09 * 0.09 + 1)
+    ),
+    // Progressive-regressive grain: ~1.5 kN·s from 0.75 kg, exhaust ~2 km/s
+    motor: {
+      thrustCurve: [[0, 2400], [0.1, 3600], [0.7, 3000], [1, 1000]],
+      burnTime: 0.5,
+      propellantMass: 0.75,
+      nozzleDirection: new THREE.Vector3(0, -1, 0)
+    },
+    meshFactory: (palette) => makeRocket(palette, 1)
+  },
+  {
+    id: 'sustainer',
+    label: 'Sustainer Rocket',
+    description: 'Boost-sustain motor lit just clear of the muzzle, holding speed for six seconds.',
+    massKg: 8,
+    referenceArea: Math.PI * 0.09 * 0.09,
+    dragCoefficient: 0.3,
+    dragModel: 'g1',
+    aerodynamics: {
+      normalForceSlope: 6,
+      pitchMomentSlope: -7,
+      pitchDamping: -40,
+      rollDamping: -0.2
+    },
+    spinDamping: 0.2,
+    restitution: 0.1,
+    radius: 0.09,
+    capsuleHalfLength: 0.51,
+    // Solid cylinder, L = 1.2 m
+    momentOfInertia: new THREE.Vector3(
+      (1/12) * 8 * (3 * 0.09 * 0.09 + 1.44),
+      0.5 * 8 * 0.09 * 0.09,
+      (1/12) * 8 * (3 * 0.09 * 0.09 + 1.44)
+    ),
+    // Short 800 N boost, then a long 150 N sustain phase
+    motor: {
+      thrustCurve: [[0, 800], [0.06, 800], [0.08, 150], [1, 150]],
+      burnTime: 6,
+      propellantMass: 0.6,
+      nozzleDirection: new THREE.Vector3(0, -1, 0),
+      ignitionDelay: 0.2
+    },
+    meshFactory: (palette) => makeRocket(palette, 1.2)
   }
 ];
@@ -0,0 +1,100 @@
+import { DEFAULT_SURFACE, SurfaceMapDefinition, SurfaceMaterial } from '../physics/surfaces';
+
+export interface GroundMaterial extends SurfaceMaterial {
+  label: string;
+  color: string; // Tint painted over the ground texture
+}
+
+export interface SurfaceLayout {
+  id: string;
+  label: string;
+  description: string;
+  surfaces: SurfaceMapDefinition;
+}
+
+const grass: GroundMaterial = { ...DEFAULT_SURFACE, label: 'Grass', color: '#3f7a3a' };
+const fairway: GroundMaterial = {
+  id: 'fairway',
+  label: 'Fairway',
+  friction: 0.5,
+  restitution: 0.55,
+  rollingResistance: 0.012,
+  penetration: { strength: 1.2e6, inertia: 1700 },
+  color: '#6fbf4f'
+};
+const concrete: GroundMaterial = { id: 'concrete', label: 'Concrete', friction: 0.8, restitution: 0.7, rollingResistance: 0.008, color: '#9aa1aa' };
+const dirt: GroundMaterial = {
+  id: 'dirt',
+  label: 'Dirt',
+  friction: 0.7,
+  restitution: 0.4,
+  rollingResistance: 0.04,
+  penetration: { strength: 6e5, inertia: 1700 },
+  color: '#86603c'
+};
+const ice: GroundMaterial = { id: 'ice', label: 'Ice', friction: 0.05, restitution: 0.9, rollingResistance: 0.003, color: '#c9ecff' };
+const sand: GroundMaterial = {
+  id: 'sand',
+  label: 'Sand',
+  friction: 0.55,
+  restitution: 0.15,
+  rollingResistance: 0.2,
+  penetration: { strength: 1.5e5, inertia: 1600 },
+  color: '#e0c68c'
+};
+const mud: GroundMaterial = {
+  id: 'mud',
+  label: 'Mud',
+  friction: 0.35,
+  restitution: 0.08,
+  rollingResistance: 0.12,
+  penetration: { strength: 3e4, inertia: 1400 },
+  color: '#4e3a28'
+};
+
+export const groundMaterials: GroundMaterial[] = [grass, fairway, concrete, dirt, ice, sand, mud];
+
+const uniform = (material: GroundMaterial): SurfaceLayout => ({
+  id: material.id,
+  label: material.label,
+  description: `${material.label} everywhere.`,
+  surfaces: { base: material, regions: [] }
+});
+
+// Painted layouts are laid out along +X, the direction most profiles fire
+export const surfaceLayouts: SurfaceLayout[] = [
+  uniform(grass),
+  {
+    id: 'fairway-rink',
+    label: 'Fairway to Ice Rink',
+    description: 'A mown fairway running downrange into a frozen pond, with bunkers and a cart path.',
+    surfaces: {
+      base: grass,
+      regions: [
+        { shape: 'rect', material: fairway, min: [-10, -12], max: [70, 12] },
+        { shape: 'polygon', material: concrete, points: [[-10, 14], [70, 14], [70, 17], [-10, 17]] },
+        { shape: 'circle', material: sand, center: [35, -14], radius: 6 },
+        { shape: 'circle', material: sand, center: [52, 10], radius: 4 },
+        { shape: 'polygon', material: ice, points: [[70, -20], [95, -24], [120, -12], [118, 16], [92, 24], [70, 18]] }
+      ]
+    }
+  },
+  {
+    id: 'quarry',
+    label: 'Quarry Floor',
+    description: 'Packed dirt with poured concrete pads, sand heaps and standing mud.',
+    surfaces: {
+      base: dirt,
+      regions: [
+        { shape: 'rect', material: concrete, min: [-12, -12], max: [12, 12] },
+        { shape: 'circle', material: sand, center: [40, 8], radius: 10 },
+        { shape: 'circle', material: mud, center: [65, -10], radius: 14 },
+        { shape: 'rect', material: concrete, min: [85, -30], max: [110, 30] }
+      ]
+    }
+  },
+  uniform(concrete),
+  uniform(dirt),
+  uniform(ice),
+  uniform(sand)
+];
@@ -0,0 +1,45 @@
+import { SEA_WATER_DENSITY, WaterBody } from '../physics/water';
+
+export interface WaterLayout {
+  id: string;
+  label: string;
+  description: string;
+  bodies: WaterBody[];
+}
+
+// Water is laid out downrange along +X, like the painted ground layouts
+export const waterLayouts: WaterLayout[] = [
+  {
+    id: 'dry',
+    label: 'No Water',
+    description: 'Solid ground all the way downrange.',
+    bodies: []
+  },
+  {
+    id: 'pond',
+    label: 'Pond',
+    description: 'A shallow freshwater pond just past the launch pads, good for skipping.',
+    bodies: [{ id: 'pond', area: { shape: 'circle', center: [34, 0], radius: 16 }, level: -0.2, depth: 1.5 }]
+  },
+  {
+    id: 'harbor',
+    label: 'Harbor',
+    description: 'Deep salt water beyond a quay wall, to go with the Damp Harbor air.',
+    bodies: [
+      {
+        id: 'harbor',
+        area: { shape: 'polygon', points: [[45, -90], [180, -130], [260, -40], [250, 90], [170, 140], [45, 90]] },
+        level: -1,
+        depth: 8,
+        density: SEA_WATER_DENSITY,
+        bed: {
+          id: 'harbor-mud',
+          friction: 0.35,
+          restitution: 0.03,
+          rollingResistance: 0.2,
+          penetration: { strength: 1.5e4, inertia: 1300 }
+        }
+      }
+    ]
+  }
+];
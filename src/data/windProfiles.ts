@@ -0,0 +1,60 @@
+import { WindProfile } from '../physics/windProfile';
+
+export interface WindProfilePreset {
+  id: string;
+  label: string;
+  description: string;
+  profile: WindProfile;
+}
+
+// Reference heights follow the 10 m anemometer convention, so the console wind
+// is what a mast on the range would read
+export const windProfiles: WindProfilePreset[] = [
+  {
+    id: 'open-grass',
+    label: 'Open Grass (log law)',
+    description: 'Neutral surface layer over short grass, roughness length 3 cm.',
+    profile: { kind: 'logarithmic', referenceHeight: 10, roughnessLength: 0.03 }
+  },
+  {
+    id: 'suburban',
+    label: 'Suburban (log law)',
+    description: 'Rough terrain with buildings and trees: slow near the ground, strong shear.',
+    profile: { kind: 'logarithmic', referenceHeight: 10, roughnessLength: 0.5, displacementHeight: 2 }
+  },
+  {
+    id: 'power-seventh',
+    label: 'Power Law (α = 1/7)',
+    description: 'Classic one-seventh power law for open country.',
+    profile: { kind: 'power', referenceHeight: 10, exponent: 1 / 7 }
+  },
+  {
+    id: 'offshore',
+    label: 'Offshore (α = 0.11)',
+    description: 'Smooth water surface, weak shear.',
+    profile: { kind: 'power', referenceHeight: 10, exponent: 0.11 }
+  },
+  {
+    id: 'veering-layers',
+    label: 'Veering Layers',
+    description: 'Wind strengthens and turns 60° through the lowest 400 m, then a jet near 600 m.',
+    profile: {
+      kind: 'layers',
+      layers: [
+        { height: 0, speedFactor: 0, veer: 0 },
+        { height: 2, speedFactor: 0.6, veer: 0 },
+        { height: 10, speedFactor: 1, veer: 0 },
+        { height: 100, speedFactor: 1.5, veer: 25 },
+        { height: 400, speedFactor: 2, veer: 60 },
+        { height: 600, speedFactor: 2.6, veer: 70 },
+        { height: 1000, speedFactor: 1.8, veer: 75 }
+      ]
+    }
+  },
+  {
+    id: 'uniform',
+    label: 'Uniform',
+    description: 'Same wind at every height.',
+    profile: { kind: 'uniform' }
+  }
+];
@@ -5,8 +5,11 @@ export class Diagnostics {
   private accumulator = 0;
   private frames = 0;
   private fps = 0;
+  private seed: number;
+  private notice?: string;
 
-  constructor(root: HTMLElement) {
+  constructor(root: HTMLElement, seed: number) {
+    this.seed = seed;
     this.label = document.createElement('div');
     this.label.style.position = 'fixed';
     this.label.style.left = '1.5rem';
@@ -22,6 +25,11 @@ export class Diagnostics {
     root.appendChild(this.label);
   }
 
+  // Shown after the readout until replaced, e.g. a setup step that failed
+  showNotice(notice: string): void {
+    this.notice = notice;
+  }
+
   update(dt: number, records: LaunchRecord[]): void {
     this.accumulator += dt;
     this.frames += 1;
@@ -31,6 +39,15 @@ export class Diagnostics {
       this.accumulator = 0;
     }
     const active = records.filter((record) => !record.summary).length;
-    this.label.textContent = `FPS ${this.fps.toString().padStart(2, ' ')} | Active ${active}`;
+    let text = `FPS ${this.fps.toString().padStart(2, ' ')} | Active ${active} | Seed ${this.seed}`;
+    const latest = records[records.length - 1];
+    if (latest) {
+      const { steps, rejectedSteps } = latest.integration;
+      text += ` | ${latest.integrator.toUpperCase()} ${steps} steps / ${rejectedSteps} rejected`;
+    }
+    if (this.notice) {
+      text += ` | ${this.notice}`;
+    }
+    this.label.textContent = text;
   }
 }
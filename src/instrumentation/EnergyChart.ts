@@ -0,0 +1,134 @@
+import { Chart, ChartConfiguration, registerables } from 'chart.js';
+import { EnergySample, EnergyWork, LaunchRecord } from '../physics/types';
+import { ENERGY_DRIFT_TOLERANCE, relativeDrift } from '../physics/energy';
+
+Chart.register(...registerables);
+
+interface Layer {
+  label: string;
+  color: string;
+  value: (sample: EnergySample) => number;
+}
+
+// Energy lost to a sink, as a positive amount
+const dissipated = (term: keyof EnergyWork) => (sample: EnergySample) => Math.max(0, -sample.work[term]);
+
+// Stacked bottom to top: what the body holds, then where the rest went
+const LAYERS: Layer[] = [
+  { label: 'Kinetic', color: '#6df2ff', value: (s) => s.translational },
+  { label: 'Rotational', color: '#b68cff', value: (s) => s.rotational },
+  { label: 'Potential', color: '#7dffa8', value: (s) => s.potential },
+  { label: 'Drag', color: '#ff9f5a', value: dissipated('drag') },
+  { label: 'Rolling', color: '#d8b26e', value: dissipated('rolling') },
+  { label: 'Impacts', color: '#ff5a7a', value: dissipated('collisions') },
+  { label: 'Water', color: '#5a9bff', value: dissipated('water') },
+  { label: 'Propellant', color: '#ffe15a', value: dissipated('propellant') }
+];
+
+export class EnergyChart {
+  private canvas: HTMLCanvasElement;
+  private chart: Chart;
+  private panel: HTMLElement;
+  private heading: HTMLElement;
+
+  constructor(root: HTMLElement) {
+    this.panel = document.createElement('div');
+    this.panel.className = 'timeline-panel energy-panel';
+    this.heading = document.createElement('p');
+    this.heading.textContent = 'Energy Budget';
+    this.heading.style.margin = '0 0 0.5rem';
+    this.heading.style.fontSize = '0.8rem';
+    this.heading.style.letterSpacing = '0.1em';
+    this.heading.style.opacity = '0.6';
+    this.panel.appendChild(this.heading);
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = 320;
+    this.canvas.height = 160;
+    this.panel.appendChild(this.canvas);
+    root.appendChild(this.panel);
+
+    const config: ChartConfiguration = {
+      type: 'line',
+      data: {
+        datasets: []
+      },
+      options: {
+        responsive: false,
+        maintainAspectRatio: false,
+        animation: false,
+        scales: {
+          x: {
+            type: 'linear',
+            title: {
+              display: true,
+              text: 'Time (s)',
+              color: 'rgba(141, 209, 255, 0.7)',
+              font: { family: 'IBM Plex Mono', size: 10 }
+            },
+            ticks: { color: 'rgba(141, 209, 255, 0.5)', font: { size: 9 } },
+            grid: { color: 'rgba(26, 50, 77, 0.3)' }
+          },
+          y: {
+            stacked: true,
+            title: {
+              display: true,
+              text: 'Energy (kJ)',
+              color: 'rgba(141, 209, 255, 0.7)',
+              font: { family: 'IBM Plex Mono', size: 10 }
+            },
+            ticks: { color: 'rgba(141, 209, 255, 0.5)', font: { size: 9 } },
+            grid: { color: 'rgba(26, 50, 77, 0.3)' }
+          }
+        },
+        plugins: {
+          legend: {
+            display: true,
+            position: 'bottom',
+            labels: { color: 'rgba(141, 209, 255, 0.7)', boxWidth: 8, font: { family: 'IBM Plex Mono', size: 9 } }
+          },
+          tooltip: {
+            enabled: true,
+            mode: 'index',
+            intersect: false,
+            backgroundColor: 'rgba(2, 4, 9, 0.9)',
+            titleColor: 'rgba(109, 242, 255, 0.9)',
+            bodyColor: 'rgba(141, 209, 255, 0.8)',
+            borderColor: 'rgba(109, 242, 255, 0.5)',
+            borderWidth: 1,
+            titleFont: { family: 'IBM Plex Mono', size: 11 },
+            bodyFont: { family: 'IBM Plex Mono', size: 10 }
+          }
+        }
+      }
+    };
+
+    this.chart = new Chart(this.canvas, config);
+  }
+
+  // Breakdown for a single launch, the one the HUD is following
+  update(record: LaunchRecord | undefined): void {
+    const energy = record?.energy ?? [];
+    this.chart.data.datasets = LAYERS.map((layer) => ({
+      label: layer.label,
+      data: energy.map((sample) => ({ x: sample.time, y: layer.value(sample) / 1000 })),
+      borderColor: layer.color,
+      backgroundColor: layer.color + '55',
+      borderWidth: 1,
+      pointRadius: 0,
+      fill: true
+    }));
+    this.chart.update('none');
+
+    const latest = energy[energy.length - 1];
+    if (!latest) {
+      this.heading.textContent = 'Energy Budget';
+      this.heading.style.color = '';
+      return;
+    }
+    // The stack only adds up while the books balance; flag it when they don't
+    const drift = relativeDrift(latest);
+    this.heading.textContent = `Energy Budget | drift ${(drift * 100).toFixed(2)}%`;
+    this.heading.style.color = drift > ENERGY_DRIFT_TOLERANCE ? '#ff5a7a' : '';
+  }
+}
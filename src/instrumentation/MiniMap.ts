@@ -1,4 +1,9 @@
 import * as THREE from 'three';
+import { ProjectileSnapshot } from '../physics/types';
+import { Heightfield } from '../physics/terrain';
+import { DispersionResult, ellipseOutline } from '../physics/dispersion';
+
+const CONTOUR_INTERVAL = 2; // m between contour lines
 
 interface ProjectileTrail {
   id: string;
@@ -18,6 +23,10 @@ export class MiniMap {
   private centerY = 100;
   private trails: Map<string, ProjectileTrail> = new Map();
   private maxTrailPoints = 100;
+  private terrain: Heightfield | null = null;
+  private contourLayer: HTMLCanvasElement;
+  private contourScale = 0;
+  private dispersion?: DispersionResult;
 
   constructor(container: HTMLElement, scene: THREE.Scene, camera: THREE.Camera) {
     this.scene = scene;
@@ -40,18 +49,83 @@ export class MiniMap {
     container.appendChild(this.canvas);
 
     this.ctx = this.canvas.getContext('2d')!;
+
+    this.contourLayer = document.createElement('canvas');
+    this.contourLayer.width = this.width;
+    this.contourLayer.height = this.height;
+  }
+
+  setTerrain(terrain: Heightfield): void {
+    this.terrain = terrain;
+    this.contourScale = 0;
+  }
+
+  // Impact ellipses of a dispersion study, kept in view until cleared
+  setDispersion(result: DispersionResult | undefined): void {
+    this.dispersion = result;
   }
 
-  update(projectiles: Array<{ id: string; position: THREE.Vector3; color: number }>): void {
+  // Rasterize contour lines for the current zoom: a pixel is on a contour when
+  // its height band differs from the pixel to its right or below
+  private refreshContours(): void {
+    const terrain = this.terrain;
+    if (!terrain) return;
+    if (this.contourScale > 0 && Math.abs(this.scale - this.contourScale) / this.contourScale < 0.05) return;
+    this.contourScale = this.scale;
+
+    const ctx = this.contourLayer.getContext('2d')!;
+    const image = ctx.createImageData(this.width, this.height);
+    const bands = new Float32Array(this.width * this.height);
+    const heights = new Float32Array(this.width * this.height);
+    for (let py = 0; py < this.height; py++) {
+      for (let px = 0; px < this.width; px++) {
+        const h = terrain.heightAt((px - this.centerX) * this.scale, -(py - this.centerY) * this.scale);
+        heights[py * this.width + px] = h;
+        bands[py * this.width + px] = Math.floor(h / CONTOUR_INTERVAL);
+      }
+    }
+    const range = Math.max(1e-3, terrain.maxHeight - terrain.minHeight);
+    for (let py = 0; py < this.height; py++) {
+      for (let px = 0; px < this.width; px++) {
+        const index = py * this.width + px;
+        const band = bands[index];
+        const edge =
+          (px + 1 < this.width && bands[index + 1] !== band) ||
+          (py + 1 < this.height && bands[index + this.width] !== band);
+        const relief = (heights[index] - terrain.minHeight) / range;
+        const o = index * 4;
+        if (edge) {
+          image.data[o] = 109;
+          image.data[o + 1] = 242;
+          image.data[o + 2] = 255;
+          image.data[o + 3] = 70;
+        } else {
+          // Faint hypsometric tint so hills read even between contours
+          image.data[o] = 40;
+          image.data[o + 1] = 70;
+          image.data[o + 2] = 60;
+          image.data[o + 3] = Math.floor(relief * 40);
+        }
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+
+  update(projectiles: ProjectileSnapshot[]): void {
     const ctx = this.ctx;
     
-    // Auto-adjust scale based on projectile distances
-    if (projectiles.length > 0) {
+    // Auto-adjust scale based on projectile distances and the dispersion study
+    const study = this.dispersion?.impacts.length ? this.dispersion : undefined;
+    if (projectiles.length > 0 || study) {
       let maxDistance = 0;
       projectiles.forEach(proj => {
         const dist = Math.sqrt(proj.position.x * proj.position.x + proj.position.z * proj.position.z);
         maxDistance = Math.max(maxDistance, dist);
       });
+      if (study) {
+        const outer = study.ellipses[study.ellipses.length - 1]?.semiMajor ?? 0;
+        maxDistance = Math.max(maxDistance, Math.hypot(study.meanPoint.x, study.meanPoint.z) + outer);
+      }
       // Add 20% padding and ensure minimum scale of 20
       const targetScale = Math.max(20, (maxDistance * 1.2) / (this.width / 2));
       // Smooth transition
@@ -62,6 +136,12 @@ export class MiniMap {
     ctx.fillStyle = 'rgba(2, 4, 9, 0.95)';
     ctx.fillRect(0, 0, this.width, this.height);
 
+    // Draw terrain contours
+    if (this.terrain) {
+      this.refreshContours();
+      ctx.drawImage(this.contourLayer, 0, 0);
+    }
+
     // Draw grid
     ctx.strokeStyle = 'rgba(26, 50, 77, 0.4)';
     ctx.lineWidth = 1;
@@ -95,6 +175,10 @@ export class MiniMap {
     ctx.arc(camX, camZ, 3, 0, Math.PI * 2);
     ctx.fill();
 
+    if (study) {
+      this.drawDispersion(ctx, study);
+    }
+
     // Draw trails
     this.trails.forEach((trail) => {
       if (trail.positions.length < 2) return;
@@ -161,6 +245,47 @@ export class MiniMap {
     ctx.fillText(`${Math.floor(10 * this.scale)}m`, 10, this.height - 10);
   }
 
+  private drawDispersion(ctx: CanvasRenderingContext2D, study: DispersionResult): void {
+    const toMap = (x: number, z: number): [number, number] => [this.centerX + x / this.scale, this.centerY - z / this.scale];
+
+    ctx.fillStyle = 'rgba(245, 247, 255, 0.6)';
+    study.impacts.forEach((impact) => {
+      const [x, y] = toMap(impact.x, impact.z);
+      ctx.fillRect(x - 0.5, y - 0.5, 1, 1);
+    });
+
+    ctx.lineWidth = 1;
+    study.ellipses.forEach((ellipse, i) => {
+      ctx.strokeStyle = i === 0 ? 'rgba(109, 242, 255, 0.9)' : 'rgba(182, 140, 255, 0.8)';
+      ctx.beginPath();
+      ellipseOutline(ellipse, study.meanPoint).forEach((point, j) => {
+        const [x, y] = toMap(point.x, point.z);
+        if (j === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.closePath();
+      ctx.stroke();
+    });
+
+    // Mean point of impact, with the CEP circle dashed around it
+    const [mx, my] = toMap(study.meanPoint.x, study.meanPoint.z);
+    ctx.strokeStyle = 'rgba(246, 179, 107, 0.9)';
+    ctx.setLineDash([2, 2]);
+    ctx.beginPath();
+    ctx.arc(mx, my, Math.max(1, study.cep / this.scale), 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.moveTo(mx - 3, my);
+    ctx.lineTo(mx + 3, my);
+    ctx.moveTo(mx, my - 3);
+    ctx.lineTo(mx, my + 3);
+    ctx.stroke();
+  }
+
   private drawCompass(ctx: CanvasRenderingContext2D): void {
     const cx = 25;
     const cy = 25;
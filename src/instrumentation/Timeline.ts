@@ -3,10 +3,13 @@ import { LaunchRecord } from '../physics/types';
 
 Chart.register(...registerables);
 
+const CURSOR_COLOR = 'rgba(255, 225, 90, 0.8)';
+
 export class Timeline {
   private canvas: HTMLCanvasElement;
   private chart: Chart;
   private panel: HTMLElement;
+  private cursor?: number; // Flight time of the followed launch (s)
 
   constructor(root: HTMLElement) {
     this.panel = document.createElement('div');
@@ -70,14 +73,36 @@ export class Timeline {
             bodyFont: { family: 'IBM Plex Mono', size: 10 }
           }
         }
-      }
+      },
+      plugins: [
+        {
+          id: 'cursor',
+          afterDatasetsDraw: (chart) => {
+            if (this.cursor === undefined) return;
+            const { ctx, chartArea } = chart;
+            const x = chart.scales.x.getPixelForValue(this.cursor);
+            if (x < chartArea.left || x > chartArea.right) return;
+            ctx.save();
+            ctx.strokeStyle = CURSOR_COLOR;
+            ctx.setLineDash([4, 3]);
+            ctx.beginPath();
+            ctx.moveTo(x, chartArea.top);
+            ctx.lineTo(x, chartArea.bottom);
+            ctx.stroke();
+            ctx.restore();
+          }
+        }
+      ]
     };
 
     this.chart = new Chart(this.canvas, config);
   }
 
-  update(records: LaunchRecord[]): void {
-    const datasets = records.slice(-5).map((record, index) => ({
+  // The cursor marks the current moment on the followed launch's flight time
+  update(records: LaunchRecord[], cursor?: number): void {
+    this.cursor = cursor;
+    const recent = records.slice(-5);
+    const datasets: any[] = recent.map((record, index) => ({
       label: `${record.profileLabel} - ${record.projectileLabel}`,
       data: record.samples.map(s => ({ x: s.time, y: s.altitude })),
       borderColor: record.color,
@@ -88,6 +113,37 @@ export class Timeline {
       fill: false
     }));
 
+    // Gust onsets marked on each trajectory at the altitude flown when they struck
+    recent.forEach((record) => {
+      if (record.gusts.length === 0 || record.samples.length === 0) return;
+      datasets.push({
+        type: 'scatter',
+        label: `${record.profileLabel} - gusts`,
+        data: record.gusts.map((gust) => {
+          const sample = record.samples.find((s) => s.time >= gust.start) ?? record.samples[record.samples.length - 1];
+          return { x: gust.start, y: sample.altitude };
+        }),
+        borderColor: record.color,
+        backgroundColor: record.color,
+        pointStyle: 'triangle',
+        pointRadius: 4
+      });
+    });
+
+    // Water strikes, skips and entries alike, at the surface they hit
+    recent.forEach((record) => {
+      if (record.splashes.length === 0) return;
+      datasets.push({
+        type: 'scatter',
+        label: `${record.profileLabel} - splashes`,
+        data: record.splashes.map((splash) => ({ x: splash.time, y: splash.positionY })),
+        borderColor: record.color,
+        backgroundColor: 'rgba(217, 244, 255, 0.8)',
+        pointStyle: 'circle',
+        pointRadius: 3
+      });
+    });
+
     this.chart.data.datasets = datasets;
     this.chart.update('none');
   }
@@ -0,0 +1,47 @@
+import { DispersionResult } from '../physics/dispersion';
+
+const RAD2DEG = 180 / Math.PI;
+
+// Short readout for the console
+export function describeDispersion(result: DispersionResult): string {
+  if (result.impacts.length === 0) {
+    return `No run landed (${result.lost} lost)`;
+  }
+  const [inner, outer] = result.ellipses;
+  const lines = [
+    `Landed ${result.impacts.length} / ${result.settings.runs}${result.lost ? `, ${result.lost} lost` : ''}`,
+    `MPI    ${result.meanPoint.x.toFixed(1)}, ${result.meanPoint.z.toFixed(1)} m`,
+    `Range  ${result.meanRange.toFixed(1)} m ± ${result.rangeSpread.toFixed(2)}`,
+    `Defl.  ± ${result.deflectionSpread.toFixed(2)} m`,
+    `CEP    ${result.cep.toFixed(2)} m`
+  ];
+  if (inner) lines.push(`1σ     ${inner.semiMajor.toFixed(2)} × ${inner.semiMinor.toFixed(2)} m`);
+  if (outer) lines.push(`2σ     ${outer.semiMajor.toFixed(2)} × ${outer.semiMinor.toFixed(2)} m`);
+  return lines.join('\n');
+}
+
+// Settings, statistics and every impact as JSON, saved through the browser
+export function exportDispersion(result: DispersionResult, launch: { profile: string; projectile: string }): void {
+  const summary = {
+    launch,
+    settings: result.settings,
+    runs: result.settings.runs,
+    landed: result.impacts.length,
+    lost: result.lost,
+    origin: result.origin,
+    meanPointOfImpact: result.meanPoint,
+    meanRange: result.meanRange,
+    rangeSpread: result.rangeSpread,
+    deflectionSpread: result.deflectionSpread,
+    cep: result.cep,
+    ellipses: result.ellipses.map((ellipse) => ({ ...ellipse, angle: ellipse.angle * RAD2DEG })), // Angle in degrees
+    lineOfFire: result.lineOfFire,
+    impacts: result.impacts
+  };
+  const blob = new Blob([JSON.stringify(summary, null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `dispersion-${launch.profile}-${launch.projectile}-${result.settings.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
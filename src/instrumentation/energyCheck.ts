@@ -0,0 +1,53 @@
+import * as THREE from 'three';
+import { simulateLaunch } from '../physics/simulation';
+import { listIntegrators } from '../physics/integrators';
+import { ENERGY_DRIFT_TOLERANCE, relativeDrift } from '../physics/energy';
+import { forceProfiles } from '../data/forceProfiles';
+import { projectileCatalog } from '../data/projectileCatalog';
+import { environmentPresets } from '../data/environmentPresets';
+
+export interface EnergyCheckResult {
+  launch: string; // Profile and projectile ids
+  integrator: string;
+  worstDrift: number; // Largest relative drift over the flight
+  withinTolerance: boolean;
+}
+
+const SEED = 20240611;
+
+// The console's default launch, a backspun bat strike and a thrown rocket,
+// which brings in thrust and spent propellant: [profile id, projectile id]
+const LAUNCHES: [string, string][] = [
+  [forceProfiles[0].id, projectileCatalog[0].id],
+  ['bat', 'slugger'],
+  ['throw', 'boost-rocket']
+];
+
+// Each launch flown to rest under every solver; the ledger must account for
+// its energy to within the drift tolerance throughout
+export function runEnergyCheck(): EnergyCheckResult[] {
+  return LAUNCHES.flatMap(([profileId, projectileId]) => {
+    const profile = forceProfiles.find((entry) => entry.id === profileId);
+    const projectile = projectileCatalog.find((entry) => entry.id === projectileId);
+    if (!profile) throw new Error(`Unknown force profile '${profileId}'`);
+    if (!projectile) throw new Error(`Unknown projectile '${projectileId}'`);
+    return listIntegrators().map((integrator) => {
+      const environment = environmentPresets[0];
+      const record = simulateLaunch({
+        profile,
+        projectile,
+        environment: { ...environment, windVector: environment.windVector.clone() },
+        tint: new THREE.Color('#ffffff'),
+        integrator: integrator.id,
+        seed: SEED
+      });
+      const worstDrift = record.energy.reduce((worst, sample) => Math.max(worst, relativeDrift(sample)), 0);
+      return {
+        launch: `${profileId}/${projectileId}`,
+        integrator: integrator.id,
+        worstDrift,
+        withinTolerance: worstDrift <= ENERGY_DRIFT_TOLERANCE
+      };
+    });
+  });
+}
@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { SimulationEngine } from '../physics/simulation';
+import { SIMULATION_TICK } from '../physics/constants';
+import { IntegrationStats, LaunchRecord } from '../physics/types';
+import { forceProfiles } from '../data/forceProfiles';
+import { projectileCatalog } from '../data/projectileCatalog';
+import { environmentPresets } from '../data/environmentPresets';
+
+export interface RewindCheckResult {
+  seeks: number[]; // Moments sought in turn before resuming (s)
+  rewound: IntegrationStats; // Stats of the launch resumed from the last of them
+  uninterrupted: IntegrationStats;
+  identical: boolean; // Stats and every history array alike
+}
+
+const SEED = 20240611;
+const SEEKS = [3.5, 5.5, 3.5];
+const FRONTIER = 8; // s run before seeking
+const MAX_TIME = 60; // s either run may take to come to rest
+
+function flyDefault(engine: SimulationEngine): LaunchRecord {
+  const environment = environmentPresets[0];
+  return engine.launch({
+    profile: forceProfiles[0],
+    projectile: projectileCatalog[0],
+    environment: { ...environment, windVector: environment.windVector.clone() },
+    tint: new THREE.Color('#ffffff')
+  });
+}
+
+function runToRest(engine: SimulationEngine): void {
+  while (engine.hasActiveProjectiles() && engine.getTime() < MAX_TIME) {
+    engine.stepTicks(1);
+  }
+}
+
+// Lengths of the record arrays, which a seek must leave as the flight left them
+function historyLengths(record: LaunchRecord): number[] {
+  return [record.samples, record.energy, record.collisions, record.bounces, record.splashes, record.propulsion, record.gusts].map(
+    (entries) => entries.length
+  );
+}
+
+// The default launch seeks back and forth through its history and runs on
+// from the last moment; it must end with the stats of a run left alone
+export function runRewindCheck(): RewindCheckResult {
+  const engine = new SimulationEngine({ seed: SEED });
+  const record = flyDefault(engine);
+  engine.stepTicks(Math.round(FRONTIER / SIMULATION_TICK));
+  SEEKS.forEach((time) => engine.seek(time));
+  runToRest(engine);
+
+  const reference = new SimulationEngine({ seed: SEED });
+  const expected = flyDefault(reference);
+  runToRest(reference);
+
+  const rewound = { ...record.integration };
+  const uninterrupted = { ...expected.integration };
+  return {
+    seeks: SEEKS,
+    rewound,
+    uninterrupted,
+    identical:
+      JSON.stringify(rewound) === JSON.stringify(uninterrupted) &&
+      historyLengths(record).join() === historyLengths(expected).join()
+  };
+}
@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import { SimulationEngine } from '../physics/simulation';
+import { LaunchRecord } from '../physics/types';
+import { forceProfiles } from '../data/forceProfiles';
+import { projectileCatalog } from '../data/projectileCatalog';
+import { environmentPresets } from '../data/environmentPresets';
+
+export interface SalvoBenchmarkOptions {
+  count?: number; // Projectiles launched together at t = 0
+  frames?: number; // Frames simulated after the salvo
+  frameRate?: number; // Hz; each frame advances the engine by 1/frameRate s
+}
+
+export interface SalvoBenchmarkResult {
+  count: number;
+  frames: number;
+  budget: number; // Wall-clock time a frame may take at the frame rate (ms)
+  meanFrame: number; // ms
+  slowFrame: number; // 95th percentile (ms)
+  withinBudget: boolean; // Whether 95% of frames kept to the budget
+  checksum: string; // Over every telemetry and energy sample recorded
+  identical?: boolean; // Against the reference, when the options are the defaults
+}
+
+const DEFAULT_COUNT = 1000;
+const DEFAULT_FRAMES = 120;
+const DEFAULT_FRAME_RATE = 60;
+const SEED = 20240611;
+const GRID_SPACING = 6; // m between launch points, so the salvo doesn't start in contact
+
+// Checksum of the default salvo. Any change to the physics moves it, and so
+// can a JavaScript engine whose Math functions round differently from V8's.
+// The scratch buffers, flat checkpoints and reused broad phase leave it where
+// it was; these moved it, each recorded with the change that did:
+//   15766a52  the allocating engine before the scratch-buffer rework
+//   41e23200  the launch takes the profile's spin again
+//   e03c5bb8  the launcher's contact window is booked in the energy ledger
+//   ba8f9ec9  the launcher's work is sampled across its pulse (ledger only)
+//   079ba293  turbulence noise hashes lattice corners with integer mixing
+//             rather than a sine, so every gust differs
+export const SALVO_REFERENCE_CHECKSUM = '079ba293';
+
+// FNV-1a over the bit patterns of the numbers, so the smallest difference in
+// any of them shows
+class Checksum {
+  private hash = 0x811c9dc5;
+  private view = new DataView(new ArrayBuffer(8));
+
+  add(value: number): void {
+    this.view.setFloat64(0, value);
+    for (let i = 0; i < 8; i++) {
+      this.hash = Math.imul(this.hash ^ this.view.getUint8(i), 0x01000193);
+    }
+  }
+
+  addRecord(record: LaunchRecord): void {
+    record.samples.forEach((sample) => Object.values(sample).forEach((value) => this.add(value as number)));
+    record.energy?.forEach((sample) => {
+      this.add(sample.time);
+      this.add(sample.translational);
+      this.add(sample.rotational);
+      this.add(sample.potential);
+      Object.values(sample.work).forEach((value) => this.add(value));
+    });
+  }
+
+  digest(): string {
+    return (this.hash >>> 0).toString(16).padStart(8, '0');
+  }
+}
+
+// Launch every profile, projectile and preset in turn from a grid of launch
+// points, all at once, then run the engine a frame at a time and time it
+export function runSalvoBenchmark(options: SalvoBenchmarkOptions = {}): SalvoBenchmarkResult {
+  const count = options.count ?? DEFAULT_COUNT;
+  const frames = options.frames ?? DEFAULT_FRAMES;
+  const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+
+  const engine = new SimulationEngine({ seed: SEED });
+  engine.setPlaybackRate(1);
+  const columns = Math.ceil(Math.sqrt(count));
+  for (let i = 0; i < count; i++) {
+    const profile = forceProfiles[i % forceProfiles.length];
+    const environment = environmentPresets[i % environmentPresets.length];
+    const x = ((i % columns) - columns / 2) * GRID_SPACING;
+    const z = (Math.floor(i / columns) - columns / 2) * GRID_SPACING;
+    engine.launch({
+      profile: { ...profile, launchPosition: new THREE.Vector3(x, profile.launchPosition?.y ?? 1.2, z) },
+      projectile: projectileCatalog[i % projectileCatalog.length],
+      environment: { ...environment, windVector: environment.windVector.clone() },
+      tint: new THREE.Color('#ffffff')
+    });
+  }
+
+  const times: number[] = [];
+  for (let frame = 0; frame < frames; frame++) {
+    const start = performance.now();
+    engine.update(1 / frameRate);
+    times.push(performance.now() - start);
+  }
+
+  const checksum = new Checksum();
+  engine.getLaunchRecords().forEach((record) => checksum.addRecord(record));
+  const budget = 1000 / frameRate;
+  const sorted = times.slice().sort((a, b) => a - b);
+  const slowFrame = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+  const defaults = count === DEFAULT_COUNT && frames === DEFAULT_FRAMES && frameRate === DEFAULT_FRAME_RATE;
+  return {
+    count,
+    frames,
+    budget,
+    meanFrame: times.reduce((sum, time) => sum + time, 0) / times.length,
+    slowFrame,
+    withinBudget: slowFrame <= budget,
+    checksum: checksum.digest(),
+    identical: defaults ? checksum.digest() === SALVO_REFERENCE_CHECKSUM : undefined
+  };
+}
@@ -1,17 +1,33 @@
 import './styles/global.css';
 import * as THREE from 'three';
 import { SceneComposer } from './scene/SceneComposer';
-import { SimulationEngine } from './physics/simulation';
+import { DEFAULT_PLAYBACK_RATE } from './physics/simulation';
+import { SimulationClient } from './worker/SimulationClient';
+import { SIMULATION_TICK } from './physics/constants';
+import { SimulationRenderer } from './scene/SimulationRenderer';
+import { ObstacleField } from './scene/ObstacleField';
+import { DispersionOverlay } from './scene/DispersionOverlay';
+import { deriveSeed } from './physics/random';
+import { Heightfield } from './physics/terrain';
+import { loadHeightmapImage } from './assets/heightmapImage';
 import { ControlsPanel } from './ui/ControlsPanel';
 import { ForceLegend } from './ui/ForceLegend';
 import { HUD } from './ui/HUD';
+import { TransportBar } from './ui/TransportBar';
 import { Timeline } from './instrumentation/Timeline';
+import { EnergyChart } from './instrumentation/EnergyChart';
 import { Diagnostics } from './instrumentation/Diagnostics';
 import { MiniMap } from './instrumentation/MiniMap';
+import { describeDispersion, exportDispersion } from './instrumentation/dispersionReport';
 import { forceProfiles } from './data/forceProfiles';
 import { projectileCatalog } from './data/projectileCatalog';
 import { environmentPresets } from './data/environmentPresets';
-import { EnvironmentState, LaunchRecord } from './physics/types';
+import { ObstacleLayout, obstacleLayouts } from './data/obstacleLayouts';
+import { windProfiles } from './data/windProfiles';
+import { SurfaceLayout, groundMaterials, surfaceLayouts } from './data/surfaceMaps';
+import { WaterLayout, waterLayouts } from './data/waterBodies';
+import { EnvironmentState, LaunchRecord, TelemetrySample } from './physics/types';
+import { DispersionResult } from './physics/dispersion';
 
 import { InteractionManager } from './scene/InteractionManager';
 
@@ -23,15 +39,59 @@ if (!appRoot || !uiRoot || !hudCanvas) {
   throw new Error('Root containers missing');
 }
 
-const composer = new SceneComposer(appRoot);
-const simulation = new SimulationEngine(composer.scene, composer.assets.palette);
+// Independent random streams drawn from the session seed
+const TINT_STREAM = 0xc010;
+const TERRAIN_STREAM = 0x7e44;
+const DISPERSION_STREAM = 0xd15b;
+
+// ?seed=<n> reproduces a previous session's terrain, tints, turbulence and gusts
+const query = new URLSearchParams(window.location.search);
+const seedParam = query.get('seed');
+// The engine runs in a worker; the client mirrors it for the page
+const simulation = new SimulationClient({ seed: seedParam !== null ? Number(seedParam) >>> 0 : undefined });
+const terrain = Heightfield.procedural({ seed: deriveSeed(simulation.sessionSeed, TERRAIN_STREAM) });
+simulation.setTerrain(terrain);
+
+const composer = new SceneComposer(appRoot, terrain);
+const simulationView = new SimulationRenderer(composer.scene, composer.assets.palette, simulation);
+const obstacleField = new ObstacleField(composer.scene);
+const dispersionOverlay = new DispersionOverlay(composer.scene);
+dispersionOverlay.setTerrain(terrain);
+let studies = 0;
+let dispersion: { result: DispersionResult; launch: { profile: string; projectile: string } } | undefined;
 let environment: EnvironmentState = environmentPresets[0];
+let weatherEdited = false; // Console weather changed while rewound
+
+// Physics and scene load the same declarative layout
+function applyObstacleLayout(layout: ObstacleLayout): void {
+  simulation.setObstacles(layout.obstacles);
+  obstacleField.setLayout(layout.obstacles);
+}
+applyObstacleLayout(obstacleLayouts[0]);
+
+function applySurfaceLayout(layout: SurfaceLayout): void {
+  simulation.setSurfaceMap(layout.surfaces);
+  composer.environment.setSurfaceMap(
+    layout.surfaces,
+    (material) => groundMaterials.find((entry) => entry.id === material.id)?.color ?? '#3f7a3a'
+  );
+}
+applySurfaceLayout(surfaceLayouts[0]);
+
+function applyWaterLayout(layout: WaterLayout): void {
+  simulation.setWaterBodies(layout.bodies);
+  composer.environment.setWaterBodies(layout.bodies);
+}
+applyWaterLayout(waterLayouts[0]);
+
+simulationView.onSplash = (splash) =>
+  composer.particles.splash(new THREE.Vector3(splash.positionX, splash.positionY, splash.positionZ), splash.impactSpeed);
 
 // Interaction Manager for 3D Object Manipulation
 const interactionManager = new InteractionManager(composer.scene, composer.cameraRig.camera, appRoot);
 
 // Spawn initial preview object
-let previewMesh = simulation.spawnPreview(projectileCatalog[1]); // Default ball
+let previewMesh = simulationView.spawnPreview(projectileCatalog[1]); // Default ball
 interactionManager.setTarget(previewMesh);
 
 // Set camera to side view initially
@@ -105,8 +165,13 @@ const legend = new ForceLegend({
 controls = new ControlsPanel(controlsHost, {
   forces: forceProfiles,
   projectiles: projectileCatalog,
+  layouts: obstacleLayouts,
+  windProfiles,
+  surfaceLayouts,
+  waterLayouts,
   initialEnvironment: environment,
-  onLaunch: ({ force, projectile, tint, environment: env }) => {
+  seed: deriveSeed(simulation.sessionSeed, TINT_STREAM),
+  onLaunch: ({ force, projectile, tint, environment: env, integrator }) => {
     environment = env;
     
     // Remove preview mesh before launch
@@ -114,48 +179,154 @@ controls = new ControlsPanel(controlsHost, {
       composer.scene.remove(previewMesh);
     }
 
-    const handle = simulation.launch({
+    const handle = simulationView.launch({
       profile: force,
       projectile,
       environment: {
-        gravity: env.gravity,
-        airDensity: env.airDensity,
+        ...env,
         windVector: env.windVector.clone()
       },
       tint: new THREE.Color(tint),
+      integrator,
       manualConfig: manualConfig ? {
         impulseVector: manualConfig.impulse,
         applicationPoint: manualConfig.impact
       } : undefined
     });
     
+    handle.record.catch((error: Error) => diagnostics.showNotice(`Launch failed: ${error.message}`));
+
     // Track camera
     composer.setTrackingTarget(handle.object);
     
-    // Add to timeline
-    timeline.addTrack(handle.record);
-    
     // Reset manual config after launch
     manualConfig = null;
   },
+  onEnvironmentChange: (env) => {
+    environment = env;
+    // Edits made at a rewound moment apply to the launches in flight once the
+    // run resumes from it
+    weatherEdited = simulation.isRewound();
+  },
+  onDispersion: ({ force, projectile, environment: env, integrator }, settings) => {
+    const progress = (completed: number) => controls.showDispersion(`Running… ${completed} / ${settings.runs}`);
+    progress(0);
+    simulation
+      .runDispersion(
+        {
+          profile: force,
+          projectile,
+          environment: env,
+          tint: new THREE.Color(),
+          integrator,
+          manualConfig: manualConfig ? { impulseVector: manualConfig.impulse, applicationPoint: manualConfig.impact } : undefined
+        },
+        // Each study draws its own errors, repeatable within the session
+        { ...settings, seed: deriveSeed(deriveSeed(simulation.sessionSeed, DISPERSION_STREAM), studies++) },
+        progress
+      )
+      .then((result) => {
+        dispersion = { result, launch: { profile: force.id, projectile: projectile.id } };
+        controls.showDispersion(describeDispersion(result));
+        dispersionOverlay.show(result);
+        minimap.setDispersion(result);
+      })
+      .catch((error: Error) => controls.showDispersion(error.message));
+  },
+  onDispersionExport: () => {
+    if (dispersion) {
+      exportDispersion(dispersion.result, dispersion.launch);
+    }
+  },
+  onLayoutChange: (layout) => applyObstacleLayout(layout),
+  onSurfaceChange: (layout) => applySurfaceLayout(layout),
+  onWaterChange: (layout) => applyWaterLayout(layout),
   onProjectileChange: (proj) => {
     // Update preview mesh
     if (previewMesh) {
       composer.scene.remove(previewMesh);
     }
-    previewMesh = simulation.spawnPreview(proj);
+    previewMesh = simulationView.spawnPreview(proj);
     interactionManager.setTarget(previewMesh);
   }
 });
 
 const hud = new HUD(document.body);
+const transport = new TransportBar({
+  container: document.body,
+  rates: [0.05, 0.1, 0.25, 0.5, 1, DEFAULT_PLAYBACK_RATE, 2, 4],
+  initialRate: simulation.getPlaybackRate(),
+  tick: SIMULATION_TICK,
+  onPauseChange: (paused) => {
+    if (paused) {
+      simulation.pause();
+      return;
+    }
+    applyWeatherEdits();
+    simulation.resume();
+  },
+  onStep: (ticks) => {
+    // Inside the recorded history stepping scrubs; past its end it simulates
+    const target = simulation.getTime() + ticks * SIMULATION_TICK;
+    const end = simulation.getHistoryRange().end;
+    if (target <= end + SIMULATION_TICK / 2) {
+      simulationView.seek(target);
+      return;
+    }
+    const remaining = Math.round((target - end) / SIMULATION_TICK);
+    simulationView.seek(end);
+    applyWeatherEdits();
+    simulationView.stepTicks(remaining);
+  },
+  onRateChange: (rate) => simulation.setPlaybackRate(rate),
+  onSeek: (time) => simulationView.seek(time)
+});
+
+function applyWeatherEdits(): void {
+  if (weatherEdited && simulation.isRewound()) {
+    simulation.setFlightWeather(environment);
+  }
+  weatherEdited = false;
+}
+
+// Latest telemetry of a launch at an engine time, which may be a rewound one
+function sampleAt(record: LaunchRecord | undefined, time: number): TelemetrySample | undefined {
+  if (!record) return undefined;
+  const flightTime = time - record.launchTime;
+  for (let i = record.samples.length - 1; i >= 0; i--) {
+    if (record.samples[i].time <= flightTime) return record.samples[i];
+  }
+  return undefined;
+}
 const timeline = new Timeline(document.body);
-const diagnostics = new Diagnostics(document.body);
+const energyChart = new EnergyChart(document.body);
+const diagnostics = new Diagnostics(document.body, simulation.sessionSeed);
 const minimap = new MiniMap(appRoot, composer.scene, composer.cameraRig.camera);
+minimap.setTerrain(terrain);
+
+function applyTerrain(field: Heightfield): void {
+  simulation.setTerrain(field);
+  composer.environment.setTerrain(field);
+  dispersionOverlay.setTerrain(field);
+  minimap.setTerrain(field);
+}
+
+// ?heightmap=<url> swaps the procedural terrain for a grayscale image
+const heightmapUrl = query.get('heightmap');
+if (heightmapUrl) {
+  loadHeightmapImage(heightmapUrl)
+    .then((image) => applyTerrain(Heightfield.fromImage(image)))
+    .catch((error: Error) => {
+      // Flat rather than the procedural terrain, so it's plain the image didn't load
+      applyTerrain(Heightfield.flat(terrain.size, terrain.resolution));
+      diagnostics.showNotice(`${error.message}, using flat terrain`);
+    });
+}
 
 let activeRecord: LaunchRecord | undefined;
 
 const clock = new THREE.Clock();
+let lastSimulationTime = simulation.getTime();
 
 function drawHudBackdrop(): void {
   hudCanvas.width = window.innerWidth;
@@ -179,14 +350,25 @@ drawHudBackdrop();
 
 function loop(): void {
   const delta = clock.getDelta();
-  simulation.update(delta);
-  composer.update(delta);
+  simulationView.update();
+  // Camera follow and particles run on simulated time, steps taken while
+  // paused included, so they freeze, slow down and step along with the physics
+  // A seek back counts as no time passing
+  const simulationTime = simulation.getTime();
+  composer.update(Math.max(0, simulationTime - lastSimulationTime));
+  lastSimulationTime = simulationTime;
+  transport.update(simulationTime, simulation.getHistoryRange(), simulation.isRewound());
 
   const records = simulation.getLaunchRecords();
   const latestRecord = activeRecord ?? records[records.length - 1];
-  const latestSample = latestRecord?.samples[latestRecord.samples.length - 1];
+  const latestSample = sampleAt(latestRecord, simulationTime);
   hud.update(latestSample, latestRecord);
-  timeline.update(records);
+  const lastSample = latestRecord?.samples[latestRecord.samples.length - 1];
+  timeline.update(
+    records,
+    latestRecord && lastSample ? Math.min(simulationTime - latestRecord.launchTime, lastSample.time) : undefined
+  );
+  energyChart.update(latestRecord);
   diagnostics.update(delta, records);
   minimap.update(simulation.getActiveProjectiles());
 
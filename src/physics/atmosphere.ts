@@ -0,0 +1,83 @@
+import {
+  GAS_CONSTANT_DRY_AIR,
+  GAS_CONSTANT_WATER_VAPOR,
+  HEAT_CAPACITY_RATIO,
+  ISA_GRAVITY,
+  airViscosity
+} from './constants';
+
+// Ground-level conditions the standard atmosphere is anchored to; everything
+// above follows the ISA layer structure from here
+export interface AtmosphericConditions {
+  temperature: number; // Air temperature at y = 0 (K)
+  pressure: number; // Static pressure at y = 0 (Pa)
+  humidity: number; // Relative humidity (0-1)
+}
+
+export interface AtmosphereSample {
+  temperature: number; // K
+  pressure: number; // Pa
+  density: number; // Humid air density (kg/m³)
+  viscosity: number; // Dynamic viscosity (Pa·s)
+  speedOfSound: number; // m/s
+}
+
+// ISA layers by base altitude (m) with their temperature lapse rates (K/m):
+// troposphere, isothermal lower stratosphere, upper stratosphere
+const LAYERS = [
+  { base: 0, lapse: -0.0065 },
+  { base: 11000, lapse: 0 },
+  { base: 20000, lapse: 0.001 },
+  { base: 32000, lapse: 0.0028 }
+];
+const CEILING = 47000; // Top of the modelled layers (m)
+
+// Saturation vapour pressure over water (Buck, 1981), temperature in K
+export function saturationVaporPressure(temperature: number): number {
+  const celsius = temperature - 273.15;
+  return 611.21 * Math.exp((18.678 - celsius / 234.5) * (celsius / (257.14 + celsius)));
+}
+
+// Temperature and pressure at an altitude above the ground datum. Each layer
+// carries the hydrostatic solution from its base: a power law where the
+// temperature changes linearly and an exponential where it is constant.
+function temperatureAndPressure(conditions: AtmosphericConditions, altitude: number): [number, number] {
+  const h = Math.min(altitude, CEILING);
+  let temperature = conditions.temperature;
+  let pressure = conditions.pressure;
+  for (let i = 0; i < LAYERS.length; i++) {
+    const layer = LAYERS[i];
+    const top = i + 1 < LAYERS.length ? LAYERS[i + 1].base : CEILING;
+    // Climb through this layer; the first also covers terrain below the datum
+    const height = Math.min(h, top) - layer.base;
+    if (layer.lapse === 0) {
+      pressure *= Math.exp((-ISA_GRAVITY * height) / (GAS_CONSTANT_DRY_AIR * temperature));
+    } else {
+      const next = temperature + layer.lapse * height;
+      pressure *= Math.pow(next / temperature, -ISA_GRAVITY / (layer.lapse * GAS_CONSTANT_DRY_AIR));
+      temperature = next;
+    }
+    if (h <= top) break;
+  }
+  return [temperature, pressure];
+}
+
+// Full atmospheric state at an altitude. Relative humidity is held constant, so
+// the vapour content falls with the saturation pressure as the air cools.
+export function sampleAtmosphere(
+  conditions: AtmosphericConditions,
+  altitude: number,
+  out: AtmosphereSample = { temperature: 0, pressure: 0, density: 0, viscosity: 0, speedOfSound: 0 }
+): AtmosphereSample {
+  const [temperature, pressure] = temperatureAndPressure(conditions, altitude);
+  const humidity = Math.min(1, Math.max(0, conditions.humidity));
+  const vapor = Math.min(pressure, humidity * saturationVaporPressure(temperature));
+  // Dalton's law: dry air and water vapour each contribute their partial density
+  const density = (pressure - vapor) / (GAS_CONSTANT_DRY_AIR * temperature) + vapor / (GAS_CONSTANT_WATER_VAPOR * temperature);
+  out.temperature = temperature;
+  out.pressure = pressure;
+  out.density = density;
+  out.viscosity = airViscosity(temperature);
+  out.speedOfSound = Math.sqrt((HEAT_CAPACITY_RATIO * pressure) / density);
+  return out;
+}
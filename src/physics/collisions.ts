@@ -0,0 +1,219 @@
+import * as THREE from 'three';
+import { ProjectileState } from './types';
+import { BODY_AXIS, applyInverseInertia } from './dynamics';
+
+const PROJECTILE_FRICTION = 0.25; // Coulomb coefficient between two projectile surfaces
+
+// A collision body is a capsule along the body's +Y axis: the set of points
+// within `radius` of the segment centre ± axis·halfLength. halfLength = 0 is a
+// sphere, so spheres and capsules share one narrow phase.
+export interface CollisionBody {
+  state: ProjectileState;
+  halfLength: number;
+}
+
+export interface ProjectileContact {
+  point: THREE.Vector3; // World contact point midway through the overlap
+  normal: THREE.Vector3; // Unit normal from body a towards body b
+  penetration: number;
+}
+
+export interface ContactImpulse {
+  impulse: number; // Magnitude of the normal impulse (N·s)
+  relativeSpeed: number; // Closing speed along the normal before the impulse (m/s)
+}
+
+function segment(body: CollisionBody, start: THREE.Vector3, end: THREE.Vector3): void {
+  const axis = BODY_AXIS.clone().applyQuaternion(body.state.rotation).multiplyScalar(body.halfLength);
+  start.copy(body.state.position).sub(axis);
+  end.copy(body.state.position).add(axis);
+}
+
+// Closest points between segments p1q1 and p2q2 (Ericson, Real-Time Collision
+// Detection §5.1.9), written into c1 and c2
+export function closestPointsOnSegments(
+  p1: THREE.Vector3,
+  q1: THREE.Vector3,
+  p2: THREE.Vector3,
+  q2: THREE.Vector3,
+  c1: THREE.Vector3,
+  c2: THREE.Vector3
+): void {
+  const d1 = q1.clone().sub(p1);
+  const d2 = q2.clone().sub(p2);
+  const r = p1.clone().sub(p2);
+  const a = d1.lengthSq();
+  const e = d2.lengthSq();
+  const f = d2.dot(r);
+  let s = 0;
+  let t = 0;
+  if (a <= 1e-12 && e <= 1e-12) {
+    // Both degenerate to points
+  } else if (a <= 1e-12) {
+    t = THREE.MathUtils.clamp(f / e, 0, 1);
+  } else {
+    const c = d1.dot(r);
+    if (e <= 1e-12) {
+      s = THREE.MathUtils.clamp(-c / a, 0, 1);
+    } else {
+      const b = d1.dot(d2);
+      const denom = a * e - b * b;
+      s = denom > 1e-12 ? THREE.MathUtils.clamp((b * f - c * e) / denom, 0, 1) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = THREE.MathUtils.clamp(-c / a, 0, 1);
+      } else if (t > 1) {
+        t = 1;
+        s = THREE.MathUtils.clamp((b - c) / a, 0, 1);
+      }
+    }
+  }
+  c1.copy(p1).addScaledVector(d1, s);
+  c2.copy(p2).addScaledVector(d2, t);
+}
+
+// Narrow phase between two capsules (or spheres) at their current poses
+export function detectProjectileContact(a: CollisionBody, b: CollisionBody): ProjectileContact | null {
+  const p1 = new THREE.Vector3();
+  const q1 = new THREE.Vector3();
+  const p2 = new THREE.Vector3();
+  const q2 = new THREE.Vector3();
+  segment(a, p1, q1);
+  segment(b, p2, q2);
+  const c1 = new THREE.Vector3();
+  const c2 = new THREE.Vector3();
+  closestPointsOnSegments(p1, q1, p2, q2, c1, c2);
+
+  const reach = a.state.radius + b.state.radius;
+  const offset = c2.clone().sub(c1);
+  const distance = offset.length();
+  if (distance >= reach) return null;
+
+  // Coincident cores: fall back to the line of centres, then to +Y
+  let normal = distance > 1e-9 ? offset.divideScalar(distance) : b.state.position.clone().sub(a.state.position);
+  if (normal.lengthSq() < 1e-18) {
+    normal = new THREE.Vector3(0, 1, 0);
+  }
+  normal.normalize();
+  const penetration = reach - distance;
+  const point = c1.clone().addScaledVector(normal, a.state.radius - penetration / 2);
+  return { point, normal, penetration };
+}
+
+// Two-body impulse at the contact point with Coulomb friction. Linear and
+// angular momentum are exchanged through each body's mass and world-frame
+// inverse inertia, so off-centre hits and sliding contact transfer spin.
+// Returns null when the bodies are already separating.
+export function resolveProjectileContact(
+  a: ProjectileState,
+  b: ProjectileState,
+  contact: ProjectileContact
+): ContactImpulse | null {
+  const n = contact.normal;
+  const ra = contact.point.clone().sub(a.position);
+  const rb = contact.point.clone().sub(b.position);
+
+  const pointVelocity = (state: ProjectileState, r: THREE.Vector3) =>
+    new THREE.Vector3().crossVectors(state.spin, r).add(state.velocity);
+  const relative = pointVelocity(b, rb).sub(pointVelocity(a, ra));
+  const vn = relative.dot(n);
+  if (vn >= 0) return null;
+
+  // Effective mass along a direction d: 1/ma + 1/mb + d·((Ia⁻¹(ra×d))×ra + (Ib⁻¹(rb×d))×rb)
+  const inverseMass = (d: THREE.Vector3) => {
+    const angularA = applyInverseInertia(a, new THREE.Vector3().crossVectors(ra, d), new THREE.Vector3()).cross(ra);
+    const angularB = applyInverseInertia(b, new THREE.Vector3().crossVectors(rb, d), new THREE.Vector3()).cross(rb);
+    return 1 / a.mass + 1 / b.mass + d.dot(angularA.add(angularB));
+  };
+
+  const restitution = Math.sqrt(a.restitution * b.restitution);
+  const jn = (-(1 + restitution) * vn) / inverseMass(n);
+  const impulse = n.clone().multiplyScalar(jn);
+
+  // Friction opposes sliding at the contact, capped by the Coulomb cone
+  const tangential = relative.clone().addScaledVector(n, -vn);
+  const slip = tangential.length();
+  if (slip > 1e-6) {
+    const t = tangential.divideScalar(slip);
+    const jt = Math.min(slip / inverseMass(t), PROJECTILE_FRICTION * jn);
+    impulse.addScaledVector(t, -jt);
+  }
+
+  // Equal and opposite: b receives +J, a receives −J
+  b.velocity.addScaledVector(impulse, 1 / b.mass);
+  a.velocity.addScaledVector(impulse, -1 / a.mass);
+  b.spin.add(applyInverseInertia(b, new THREE.Vector3().crossVectors(rb, impulse), new THREE.Vector3()));
+  a.spin.sub(applyInverseInertia(a, new THREE.Vector3().crossVectors(ra, impulse), new THREE.Vector3()));
+
+  return { impulse: jn, relativeSpeed: -vn };
+}
+
+// Uniform-grid broad phase keyed by integer cell coordinates. Each body is
+// inserted into every cell its bounds overlap; candidate pairs are visited in
+// ascending index order so resolution is deterministic. One grid serves every
+// tick: reset keeps the cells' arrays for the next pass.
+export class SpatialHash {
+  private cellSize = 1;
+  private cells = new Map<number, number[]>();
+  private spare: number[][] = [];
+  private keys: number[] = [];
+  private stride = 0; // One more than the largest index inserted
+
+  reset(cellSize: number): void {
+    this.cellSize = cellSize;
+    this.cells.forEach((cell) => {
+      cell.length = 0;
+      this.spare.push(cell);
+    });
+    this.cells.clear();
+    this.stride = 0;
+  }
+
+  insert(index: number, min: THREE.Vector3, max: THREE.Vector3): void {
+    const s = this.cellSize;
+    this.stride = Math.max(this.stride, index + 1);
+    for (let x = Math.floor(min.x / s); x <= Math.floor(max.x / s); x++) {
+      for (let y = Math.floor(min.y / s); y <= Math.floor(max.y / s); y++) {
+        for (let z = Math.floor(min.z / s); z <= Math.floor(max.z / s); z++) {
+          const key = cellKey(x, y, z);
+          let cell = this.cells.get(key);
+          if (!cell) {
+            cell = this.spare.pop() ?? [];
+            this.cells.set(key, cell);
+          }
+          cell.push(index);
+        }
+      }
+    }
+  }
+
+  // Each pair sharing a cell once, a < b
+  forEachPair(visit: (a: number, b: number) => void): void {
+    const keys = this.keys;
+    const stride = this.stride;
+    keys.length = 0;
+    this.cells.forEach((cell) => {
+      for (let i = 0; i < cell.length; i++) {
+        for (let j = i + 1; j < cell.length; j++) {
+          keys.push(Math.min(cell[i], cell[j]) * stride + Math.max(cell[i], cell[j]));
+        }
+      }
+    });
+    keys.sort((p, q) => p - q);
+    keys.forEach((key, k) => {
+      if (k > 0 && key === keys[k - 1]) return;
+      visit(Math.floor(key / stride), key % stride);
+    });
+  }
+}
+
+// Cells within 2¹⁶ of the origin on every axis get distinct keys; further out
+// two cells may share one, which only adds a candidate pair
+const CELL_SPAN = 0x20000;
+const CELL_OFFSET = 0x10000;
+
+function cellKey(x: number, y: number, z: number): number {
+  const wrap = (n: number) => (((n + CELL_OFFSET) % CELL_SPAN) + CELL_SPAN) % CELL_SPAN;
+  return (wrap(x) * CELL_SPAN + wrap(y)) * CELL_SPAN + wrap(z);
+}
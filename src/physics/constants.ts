@@ -1,25 +1,28 @@
 import * as THREE from 'three';
 
 export const DEFAULT_GRAVITY = 9.81; // m/s² (standard Earth gravity)
-export const DEFAULT_AIR_DENSITY = 1.2041; // kg/m³ at 20°C at sea level
-export const SEA_LEVEL_TEMP = 293.15; // K (20°C)
-export const SCALE_HEIGHT = 8500; // m (atmospheric scale height)
+// International Standard Atmosphere sea-level reference
+export const ISA_SEA_LEVEL_TEMP = 288.15; // K (15°C)
+export const ISA_SEA_LEVEL_PRESSURE = 101325; // Pa
+export const ISA_GRAVITY = 9.80665; // m/s², standard gravity used for geopotential altitude
+export const GAS_CONSTANT_DRY_AIR = 287.058; // J/(kg·K)
+export const GAS_CONSTANT_WATER_VAPOR = 461.495; // J/(kg·K)
+export const HEAT_CAPACITY_RATIO = 1.4; // γ for air
 export const AIR_VISCOSITY = 1.81e-5; // Pa·s (dynamic viscosity at 20°C)
 export const WIND_UPDATE_INTERVAL = 4; // seconds
 // Adaptive timesteps for accuracy
 export const MIN_TIME_STEP = 0.005;
 export const MAX_TIME_STEP = 0.02;
 export const ERROR_TOLERANCE = 0.001; // For adaptive stepping
+// Fixed simulation tick: frame time is accumulated and consumed in whole ticks so
+// a launch integrates the same way regardless of display frame rate
+export const SIMULATION_TICK = 0.01;
+export const MAX_FRAME_TIME = 0.1; // Cap on wall-clock frame time, so a stalled tab doesn't resume with a burst of ticks
 
 export const WIND_NOISE_VECTOR = new THREE.Vector3(0.4, 0, 0.2);
 export const TURBULENCE_INTENSITY = 0.15; // 15% turbulence
 export const TURBULENCE_SCALE = 10.0; // meters
 
-// Atmospheric model: density decreases exponentially with altitude
-export function airDensityAtAltitude(altitude: number, seaLevelDensity: number = DEFAULT_AIR_DENSITY): number {
-  return seaLevelDensity * Math.exp(-altitude / SCALE_HEIGHT);
-}
-
 // Temperature-dependent air viscosity (Sutherland's law)
 export function airViscosity(temperature: number): number {
   const T0 = 291.15; // K
@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import { ProjectileState } from './types';
+import { applyInverseInertia } from './dynamics';
+
+// Impulse-based response for a projectile touching a static surface with
+// outward normal `normal`. The contact point sits one radius behind the centre
+// along the normal. Returns false when the contact is already separating.
+export function applyContactImpulse(
+  state: ProjectileState,
+  normal: THREE.Vector3,
+  restitution: number,
+  friction: number
+): boolean {
+  // Contact point is at the bottom of the object relative to the normal
+  const contactOffset = normal.clone().multiplyScalar(-state.radius);
+
+  // Calculate velocity at contact point: v_contact = v_center + ω × r_contact
+  const rotationalVel = new THREE.Vector3().crossVectors(state.spin, contactOffset);
+  const contactVel = state.velocity.clone().add(rotationalVel);
+
+  // Decompose contact velocity into normal and tangential components
+  const vn = contactVel.dot(normal);
+
+  // Only process collision if moving into the surface
+  if (vn >= -0.01) {
+    return false;
+  }
+
+  const normalVel = normal.clone().multiplyScalar(vn);
+  const tangentialVel = contactVel.clone().sub(normalVel);
+  const tangentialSpeed = tangentialVel.length();
+
+  // Velocity-dependent restitution (energy dissipation increases with impact speed)
+  const impactSpeed = Math.abs(vn);
+  const effectiveRestitution = restitution * Math.exp(-impactSpeed / 20.0);
+
+  // Calculate normal impulse magnitude with velocity-dependent restitution
+  // Jn = -(1 + e) * vn / (1/m + n·((I⁻¹(r × n)) × r))
+  const rCrossN = new THREE.Vector3().crossVectors(contactOffset, normal);
+  const angularEffect = applyInverseInertia(state, rCrossN, new THREE.Vector3());
+  const angularCrossR = new THREE.Vector3().crossVectors(angularEffect, contactOffset);
+  const denominator = 1 / state.mass + angularCrossR.dot(normal);
+  const jn = -(1 + effectiveRestitution) * vn / denominator;
+
+  // Calculate friction impulse (surface-dependent Coulomb friction)
+  const maxFriction = friction * Math.abs(jn);
+
+  let jt = 0;
+  if (tangentialSpeed > 0.01) {
+    // Calculate tangential impulse needed to stop sliding
+    const tangentDir = tangentialVel.clone().normalize();
+    const rCrossT = new THREE.Vector3().crossVectors(contactOffset, tangentDir);
+    const angularEffectT = applyInverseInertia(state, rCrossT, new THREE.Vector3());
+    const angularCrossRT = new THREE.Vector3().crossVectors(angularEffectT, contactOffset);
+    const denominatorT = 1 / state.mass + angularCrossRT.dot(tangentDir);
+    jt = -tangentialSpeed / denominatorT;
+
+    // Clamp friction impulse by Coulomb's law
+    jt = Math.max(-maxFriction, Math.min(maxFriction, jt));
+  }
+
+  // Apply normal impulse
+  const normalImpulse = normal.clone().multiplyScalar(jn);
+  state.velocity.addScaledVector(normalImpulse, 1 / state.mass);
+
+  const normalTorque = new THREE.Vector3().crossVectors(contactOffset, normalImpulse);
+  state.spin.add(applyInverseInertia(state, normalTorque, new THREE.Vector3()));
+
+  // Apply friction impulse
+  if (tangentialSpeed > 0.01) {
+    const tangentDir = tangentialVel.clone().normalize();
+    const frictionImpulse = tangentDir.multiplyScalar(jt);
+    state.velocity.addScaledVector(frictionImpulse, 1 / state.mass);
+
+    const frictionTorque = new THREE.Vector3().crossVectors(contactOffset, frictionImpulse);
+    state.spin.add(applyInverseInertia(state, frictionTorque, new THREE.Vector3()));
+  }
+
+  return true;
+}
+
+// Kinetic friction over a stretch of sustained contact carrying a normal
+// impulse `normalImpulse` (load × dt): the tangential impulse needed to stop the
+// contact point slipping, capped by the Coulomb limit. A sphere on grass grips
+// and rolls within a few steps; on ice it keeps skidding. Returns true when the
+// contact point ends up gripping (rolling without slipping).
+export function applySlidingFriction(
+  state: ProjectileState,
+  normal: THREE.Vector3,
+  friction: number,
+  normalImpulse: number
+): boolean {
+  const contactOffset = normal.clone().multiplyScalar(-state.radius);
+  const contactVel = new THREE.Vector3().crossVectors(state.spin, contactOffset).add(state.velocity);
+  const tangentialVel = contactVel.addScaledVector(normal, -contactVel.dot(normal));
+  const slip = tangentialVel.length();
+  if (slip <= 0.01) {
+    return true;
+  }
+
+  const tangentDir = tangentialVel.divideScalar(slip);
+  const rCrossT = new THREE.Vector3().crossVectors(contactOffset, tangentDir);
+  const angularEffectT = applyInverseInertia(state, rCrossT, new THREE.Vector3());
+  const denominatorT = 1 / state.mass + new THREE.Vector3().crossVectors(angularEffectT, contactOffset).dot(tangentDir);
+  const stopping = slip / denominatorT;
+  const limit = friction * normalImpulse;
+  const jt = -Math.min(stopping, limit);
+
+  const frictionImpulse = tangentDir.multiplyScalar(jt);
+  state.velocity.addScaledVector(frictionImpulse, 1 / state.mass);
+  const frictionTorque = new THREE.Vector3().crossVectors(contactOffset, frictionImpulse);
+  state.spin.add(applyInverseInertia(state, frictionTorque, new THREE.Vector3()));
+  return stopping <= limit;
+}
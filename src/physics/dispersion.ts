@@ -0,0 +1,223 @@
+import * as THREE from 'three';
+import { SIMULATION_TICK } from './constants';
+import { SimulationEngine, SimulationOptions } from './simulation';
+import { SeededRandom, deriveSeed } from './random';
+import { LaunchParameters } from './types';
+import { waterAt } from './water';
+
+// Error in one launch input: a normal with standard deviation sigma, or
+// uniform over ±halfWidth. Relative for the impulse, spin and drag (0.02 is
+// 2%), in m/s for the wind.
+export type Distribution = { kind: 'normal'; sigma: number } | { kind: 'uniform'; halfWidth: number };
+
+export interface DispersionSettings {
+  runs: number;
+  seed: number; // Drives the draws; the same seed repeats the study exactly
+  impulse?: Distribution; // Scales the launch impulse, manual impulses included
+  spin?: Distribution; // Scales the profile's spin rate
+  wind?: Distribution; // Added to each horizontal component of the mean wind
+  drag?: Distribution; // Scales the projectile's drag coefficient
+  maxDuration?: number; // Flight time a run may take to land before it counts as lost (s)
+}
+
+export interface ImpactPoint {
+  x: number;
+  y: number; // Height of the surface struck, not of the projectile's centre (m)
+  z: number;
+  time: number; // Flight time at touchdown (s)
+  surface: 'ground' | 'water';
+}
+
+// Semi-axes of a k-sigma ellipse of the impact distribution, the major axis
+// at angle from +X towards +Z (rad). Holds 39% of a normal spread at 1σ and
+// 86% at 2σ.
+export interface DispersionEllipse {
+  sigma: number;
+  semiMajor: number; // m
+  semiMinor: number; // m
+  angle: number;
+}
+
+export interface DispersionResult {
+  settings: DispersionSettings;
+  origin: { x: number; z: number }; // Launch point
+  impacts: ImpactPoint[]; // First touchdown of each run that landed
+  lost: number; // Runs that left the bounds or never landed
+  meanPoint: { x: number; y: number; z: number }; // Mean point of impact
+  cep: number; // Radius about the mean point holding half the impacts (m)
+  ellipses: DispersionEllipse[]; // 1σ and 2σ
+  lineOfFire: { x: number; z: number }; // Unit vector from the launch point to the mean point
+  meanRange: number; // Launch point to mean point (m)
+  rangeSpread: number; // Standard deviation along the line of fire (m)
+  deflectionSpread: number; // Standard deviation across it, positive to the right (m)
+}
+
+const DEFAULT_MAX_DURATION = 60; // s
+const ELLIPSE_SIGMAS = [1, 2];
+
+// Every input takes the same draws, a uniform and a normal deviate, whatever
+// its distribution or without one, so adding or changing one input's
+// distribution doesn't change the draws for the others
+function draw(random: SeededRandom, distribution: Distribution | undefined): number {
+  const uniform = random.range(-1, 1);
+  const normal = random.gaussian();
+  if (!distribution) return 0;
+  return distribution.kind === 'uniform' ? uniform * distribution.halfWidth : normal * distribution.sigma;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+}
+
+// Runs perturbed copies of one launch, each alone in its own engine over the
+// same world, as far as its first touchdown. Each run also draws its own
+// turbulence and gusts, so the spread includes the atmosphere's as well as the
+// distributions'. A run at a time, so a caller can spread the study over frames.
+export class DispersionStudy {
+  private impacts: ImpactPoint[] = [];
+  private lost = 0;
+  private completed = 0;
+
+  constructor(
+    private params: LaunchParameters,
+    readonly settings: DispersionSettings,
+    private world: SimulationOptions = {}
+  ) {}
+
+  get done(): boolean {
+    return this.completed >= this.settings.runs;
+  }
+
+  get progress(): number {
+    return this.completed;
+  }
+
+  runNext(): void {
+    if (this.done) return;
+    const random = new SeededRandom(deriveSeed(this.settings.seed, this.completed));
+    const impulse = Math.max(0, 1 + draw(random, this.settings.impulse));
+    const spin = 1 + draw(random, this.settings.spin);
+    const windX = draw(random, this.settings.wind);
+    const windZ = draw(random, this.settings.wind);
+    const drag = Math.max(0, 1 + draw(random, this.settings.drag));
+    // Seeds the launch's turbulence and gusts
+    const weather = random.nextSeed();
+    const { profile, projectile, environment, manualConfig } = this.params;
+
+    const engine = new SimulationEngine({ ...this.world, seed: this.settings.seed });
+    let impact: ImpactPoint | undefined;
+    engine.events.once('landing', (event) => {
+      const { x, z } = event.state.position;
+      const water = event.surface === 'water' ? waterAt(engine.getWaterBodies(), x, z) : undefined;
+      const y = water ? water.level : engine.groundHeightAt(x, z, environment);
+      impact = { x, y, z, time: event.time, surface: event.surface };
+    });
+    engine.launch({
+      ...this.params,
+      seed: weather,
+      profile: {
+        ...profile,
+        impulse: (t, out) => profile.impulse(t, out).multiplyScalar(impulse),
+        spinRate: profile.spinRate * spin
+      },
+      projectile: { ...projectile, dragCoefficient: projectile.dragCoefficient * drag },
+      environment: { ...environment, windVector: environment.windVector.clone().add(new THREE.Vector3(windX, 0, windZ)) },
+      manualConfig: manualConfig && {
+        impulseVector: manualConfig.impulseVector.clone().multiplyScalar(impulse),
+        applicationPoint: manualConfig.applicationPoint
+      }
+    });
+    const ticks = Math.ceil((this.settings.maxDuration ?? DEFAULT_MAX_DURATION) / SIMULATION_TICK);
+    for (let i = 0; i < ticks && !impact && engine.hasActiveProjectiles(); i++) {
+      engine.step(SIMULATION_TICK);
+    }
+
+    if (impact) {
+      this.impacts.push(impact);
+    } else {
+      this.lost++;
+    }
+    this.completed++;
+  }
+
+  result(): DispersionResult {
+    const impacts = this.impacts;
+    const count = Math.max(1, impacts.length);
+    const launchPosition = this.params.profile.launchPosition;
+    const origin = { x: launchPosition?.x ?? 0, z: launchPosition?.z ?? 0 };
+    const meanPoint = {
+      x: impacts.reduce((sum, p) => sum + p.x, 0) / count,
+      y: impacts.reduce((sum, p) => sum + p.y, 0) / count,
+      z: impacts.reduce((sum, p) => sum + p.z, 0) / count
+    };
+
+    // Covariance of the impacts on the ground plane; its eigenvectors are the
+    // ellipse axes and the square roots of its eigenvalues the 1σ semi-axes
+    const n = Math.max(1, impacts.length - 1);
+    const sxx = impacts.reduce((sum, p) => sum + (p.x - meanPoint.x) ** 2, 0) / n;
+    const szz = impacts.reduce((sum, p) => sum + (p.z - meanPoint.z) ** 2, 0) / n;
+    const sxz = impacts.reduce((sum, p) => sum + (p.x - meanPoint.x) * (p.z - meanPoint.z), 0) / n;
+    const centre = (sxx + szz) / 2;
+    const radius = Math.sqrt(((sxx - szz) / 2) ** 2 + sxz ** 2);
+    const angle = 0.5 * Math.atan2(2 * sxz, sxx - szz);
+    const ellipses = ELLIPSE_SIGMAS.map((sigma) => ({
+      sigma,
+      semiMajor: sigma * Math.sqrt(centre + radius),
+      semiMinor: sigma * Math.sqrt(Math.max(0, centre - radius)),
+      angle
+    }));
+
+    const misses = impacts.map((p) => Math.hypot(p.x - meanPoint.x, p.z - meanPoint.z)).sort((a, b) => a - b);
+    const middle = Math.floor(misses.length / 2);
+    const cep = misses.length === 0 ? 0 : misses.length % 2 ? misses[middle] : (misses[middle - 1] + misses[middle]) / 2;
+
+    const meanRange = Math.hypot(meanPoint.x - origin.x, meanPoint.z - origin.z);
+    const lineOfFire =
+      meanRange > 0 ? { x: (meanPoint.x - origin.x) / meanRange, z: (meanPoint.z - origin.z) / meanRange } : { x: 1, z: 0 };
+
+    return {
+      settings: this.settings,
+      origin,
+      impacts: impacts.slice(),
+      lost: this.lost,
+      meanPoint,
+      cep,
+      ellipses,
+      lineOfFire,
+      meanRange,
+      rangeSpread: standardDeviation(impacts.map((p) => p.x * lineOfFire.x + p.z * lineOfFire.z)),
+      deflectionSpread: standardDeviation(impacts.map((p) => -p.x * lineOfFire.z + p.z * lineOfFire.x))
+    };
+  }
+}
+
+// Points around an ellipse centred on the mean point, on the ground plane
+export function ellipseOutline(
+  ellipse: DispersionEllipse,
+  centre: { x: number; z: number },
+  segments: number = 64
+): { x: number; z: number }[] {
+  const cos = Math.cos(ellipse.angle);
+  const sin = Math.sin(ellipse.angle);
+  return Array.from({ length: segments }, (_, i) => {
+    const theta = (i / segments) * Math.PI * 2;
+    const a = ellipse.semiMajor * Math.cos(theta);
+    const b = ellipse.semiMinor * Math.sin(theta);
+    return { x: centre.x + a * cos - b * sin, z: centre.z + a * sin + b * cos };
+  });
+}
+
+// The whole study at once
+export function runDispersion(
+  params: LaunchParameters,
+  settings: DispersionSettings,
+  world: SimulationOptions = {}
+): DispersionResult {
+  const study = new DispersionStudy(params, settings, world);
+  while (!study.done) {
+    study.runNext();
+  }
+  return study.result();
+}
@@ -0,0 +1,182 @@
+import * as THREE from 'three';
+import { EnvironmentState, ProjectileState } from './types';
+import { OdeSystem } from './integrators';
+
+// Both write their result to out and return it
+export type AccelerationFn = (state: ProjectileState, environment: EnvironmentState, out: THREE.Vector3) => THREE.Vector3;
+export type TorqueFn = (state: ProjectileState, environment: EnvironmentState, out: THREE.Vector3) => THREE.Vector3;
+
+// Externally applied loads at time t, e.g. a launch profile or a rocket motor;
+// null when inactive
+export interface DriveLoad {
+  force: THREE.Vector3; // World-frame force (N)
+  bodyForce?: THREE.Vector3; // Body-frame force through the centre of mass, e.g. thrust (N)
+  angularAcceleration?: THREE.Vector3; // World-frame spin-up imposed by the launcher (rad/s²)
+  mass?: number; // Current mass when it changes in flight (kg)
+  inertia?: THREE.Vector3; // Current principal moments when they change in flight (kg·m²)
+}
+export type DriveFn = (t: number) => DriveLoad | null;
+
+// State vector layout: [position(3) orientation(4) | velocity(3) angularVelocity(3)]
+// Angular velocity is stored in world axes, matching ProjectileState.spin.
+export const STATE_SIZE = 13;
+export const CONFIG_SIZE = 7;
+
+// Symmetry axis of every projectile in body coordinates; the nose points along +Y
+export const BODY_AXIS = new THREE.Vector3(0, 1, 0);
+
+const tmpQuat = new THREE.Quaternion();
+const stageQuat = new THREE.Quaternion();
+const tmpInverse = new THREE.Quaternion();
+const bodyOmega = new THREE.Vector3();
+const bodyTorque = new THREE.Vector3();
+const angularMomentum = new THREE.Vector3();
+const gyroscopic = new THREE.Vector3();
+const worldForce = new THREE.Vector3();
+const stageAcceleration = new THREE.Vector3();
+const stageTorque = new THREE.Vector3();
+const momentum = new THREE.Vector3();
+
+export function packState(state: ProjectileState, y: Float64Array): void {
+  y[0] = state.position.x;
+  y[1] = state.position.y;
+  y[2] = state.position.z;
+  y[3] = state.rotation.x;
+  y[4] = state.rotation.y;
+  y[5] = state.rotation.z;
+  y[6] = state.rotation.w;
+  y[7] = state.velocity.x;
+  y[8] = state.velocity.y;
+  y[9] = state.velocity.z;
+  y[10] = state.spin.x;
+  y[11] = state.spin.y;
+  y[12] = state.spin.z;
+}
+
+export function unpackState(y: Float64Array, state: ProjectileState): void {
+  state.position.set(y[0], y[1], y[2]);
+  state.rotation.set(y[3], y[4], y[5], y[6]);
+  state.velocity.set(y[7], y[8], y[9]);
+  state.spin.set(y[10], y[11], y[12]);
+}
+
+// Apply the world-frame inverse inertia tensor, R·I⁻¹·Rᵀ·v, where I is the
+// diagonal principal tensor in body axes
+export function applyInverseInertia(state: ProjectileState, vector: THREE.Vector3, out: THREE.Vector3): THREE.Vector3 {
+  const I = state.momentOfInertia;
+  tmpInverse.copy(state.rotation).invert();
+  out.copy(vector).applyQuaternion(tmpInverse);
+  out.set(out.x / I.x, out.y / I.y, out.z / I.z);
+  return out.applyQuaternion(state.rotation);
+}
+
+// World-frame inertia tensor applied to v, R·I·Rᵀ·v
+export function applyInertia(state: ProjectileState, vector: THREE.Vector3, out: THREE.Vector3): THREE.Vector3 {
+  const I = state.momentOfInertia;
+  tmpInverse.copy(state.rotation).invert();
+  out.copy(vector).applyQuaternion(tmpInverse);
+  out.set(out.x * I.x, out.y * I.y, out.z * I.z);
+  return out.applyQuaternion(state.rotation);
+}
+
+// Rotational kinetic energy, ½ω·Iω (J)
+export function rotationalEnergy(state: ProjectileState): number {
+  return 0.5 * state.spin.dot(applyInertia(state, state.spin, momentum));
+}
+
+// Translational plus rotational kinetic energy, ½mv² + ½ω·Iω (J)
+export function kineticEnergy(state: ProjectileState): number {
+  return 0.5 * state.mass * state.velocity.lengthSq() + rotationalEnergy(state);
+}
+
+// Coupled rigid-body equations of motion for one projectile:
+//   dx/dt = v                     dv/dt = a(x, v, q, ω) + F(t)/m
+//   dq/dt = ½ ω ⊗ q               I·dω_b/dt = τ_b − ω_b × (I·ω_b)   (Euler)
+// Torques are resolved into body axes where the principal tensor is diagonal,
+// so precession and nutation fall out of the gyroscopic term. Evaluated on a
+// probe state so trial stages never touch the live projectile.
+export class ProjectileDynamics implements OdeSystem {
+  readonly size = STATE_SIZE;
+  readonly configSize = CONFIG_SIZE;
+  private probe: ProjectileState;
+
+  constructor(
+    state: ProjectileState,
+    private environment: EnvironmentState,
+    private accelerationFn: AccelerationFn,
+    private torqueFn: TorqueFn,
+    private drive: DriveFn = () => null
+  ) {
+    this.probe = {
+      ...state,
+      position: new THREE.Vector3(),
+      velocity: new THREE.Vector3(),
+      spin: new THREE.Vector3(),
+      rotation: new THREE.Quaternion()
+    };
+  }
+
+  derivative(t: number, y: Float64Array, out: Float64Array): void {
+    const probe = this.probe;
+    unpackState(y, probe);
+    // Trial stages drift off the unit sphere; forces expect a proper rotation
+    probe.rotation.normalize();
+
+    // Mass properties first: every force below is divided by the current mass
+    const load = this.drive(t);
+    if (load?.mass !== undefined) probe.mass = load.mass;
+    if (load?.inertia) probe.momentOfInertia = load.inertia;
+
+    const accel = this.accelerationFn(probe, this.environment, stageAcceleration);
+    const torque = this.torqueFn(probe, this.environment, stageTorque);
+    if (load) {
+      accel.addScaledVector(load.force, 1 / probe.mass);
+      if (load.bodyForce) {
+        accel.addScaledVector(worldForce.copy(load.bodyForce).applyQuaternion(probe.rotation), 1 / probe.mass);
+      }
+      if (load.angularAcceleration) {
+        torque.add(applyInertia(probe, load.angularAcceleration, gyroscopic));
+      }
+    }
+
+    // Translation
+    out[0] = y[7];
+    out[1] = y[8];
+    out[2] = y[9];
+    out[7] = accel.x;
+    out[8] = accel.y;
+    out[9] = accel.z;
+
+    // Orientation: dq/dt = ½ (0, ω) ⊗ q using the unnormalized stage quaternion
+    stageQuat.set(y[3], y[4], y[5], y[6]);
+    tmpQuat.set(y[10] * 0.5, y[11] * 0.5, y[12] * 0.5, 0).multiply(stageQuat);
+    out[3] = tmpQuat.x;
+    out[4] = tmpQuat.y;
+    out[5] = tmpQuat.z;
+    out[6] = tmpQuat.w;
+
+    // Euler's equations in body axes, rotated back to world
+    const I = probe.momentOfInertia;
+    tmpInverse.copy(probe.rotation).invert();
+    bodyOmega.copy(probe.spin).applyQuaternion(tmpInverse);
+    bodyTorque.copy(torque).applyQuaternion(tmpInverse);
+    angularMomentum.set(bodyOmega.x * I.x, bodyOmega.y * I.y, bodyOmega.z * I.z);
+    gyroscopic.crossVectors(bodyOmega, angularMomentum);
+    bodyTorque.sub(gyroscopic);
+    bodyTorque.set(bodyTorque.x / I.x, bodyTorque.y / I.y, bodyTorque.z / I.z);
+    bodyTorque.applyQuaternion(probe.rotation);
+    out[10] = bodyTorque.x;
+    out[11] = bodyTorque.y;
+    out[12] = bodyTorque.z;
+  }
+
+  normalize(y: Float64Array): void {
+    const length = Math.hypot(y[3], y[4], y[5], y[6]);
+    if (length > 0) {
+      y[3] /= length;
+      y[4] /= length;
+      y[5] /= length;
+      y[6] /= length;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { EnergySample, EnergyWork, ProjectileState } from './types';
+import { mechanicalEnergy } from './constants';
+import { rotationalEnergy } from './dynamics';
+
+export type WorkTerm = keyof EnergyWork;
+
+// Drift beyond this share of the flight's energy scale points at an
+// integration or bookkeeping bug rather than round-off
+export const ENERGY_DRIFT_TOLERANCE = 0.01;
+
+const WORK_TERMS: WorkTerm[] = [
+  'profile',
+  'thrust',
+  'drag',
+  'magnus',
+  'wind',
+  'water',
+  'rolling',
+  'collisions',
+  'propellant'
+];
+
+export interface LedgerSnapshot {
+  work: EnergyWork;
+  power: EnergyWork | null;
+}
+
+export function emptyWork(): EnergyWork {
+  return { profile: 0, thrust: 0, drag: 0, magnus: 0, wind: 0, water: 0, rolling: 0, collisions: 0, propellant: 0 };
+}
+
+// Drift as a share of the largest energy in play: the energy on hand or the
+// total that has flowed in and out as work
+export function relativeDrift(sample: EnergySample): number {
+  const onHand = Math.abs(sample.translational + sample.rotational + sample.potential);
+  const flowed = WORK_TERMS.reduce((sum, term) => sum + Math.abs(sample.work[term]), 0);
+  const scale = Math.max(onHand, flowed);
+  return scale > 0 ? Math.abs(sample.drift) / scale : 0;
+}
+
+// Running energy budget for one projectile. Forces acting through the flight
+// book their work by integrating the power they deliver (trapezoidal rule over
+// each step); discrete events such as impacts book the change in energy across
+// them. Whatever the books can't explain is drift.
+//
+// The launcher's force rises and falls within a few substeps, so over its
+// contact window the engine samples its power more finely than each step and
+// books the profile's work itself.
+export class EnergyLedger {
+  readonly work = emptyWork();
+  // Power at the end of the last step, reused as the start of the next until
+  // a discrete event changes the state in between
+  power: EnergyWork | null = null;
+  private reference: number;
+  // The start and end powers of a step are written into these two in turn
+  private powers: [EnergyWork, EnergyWork] = [emptyWork(), emptyWork()];
+
+  // The projectile starts at rest on the pad; a manual impulse has already
+  // set it moving, which is the profile's doing
+  constructor(state: ProjectileState, private gravity: number) {
+    this.reference = state.mass * gravity * state.position.y;
+    this.work.profile = this.total(state) - this.reference;
+  }
+
+  // Mechanical energy, ½mv² + mgh, plus rotational energy (J)
+  total(state: ProjectileState): number {
+    return mechanicalEnergy(state, this.gravity) + rotationalEnergy(state);
+  }
+
+  // A power buffer free to write: not the one given, which is in use
+  sparePower(busy: EnergyWork | null): EnergyWork {
+    return busy === this.powers[0] ? this.powers[1] : this.powers[0];
+  }
+
+  // profile is the launcher's work over the step when the engine sampled it
+  accumulate(start: EnergyWork, end: EnergyWork, dt: number, profile?: number): void {
+    // Every substep of every projectile comes through here: term by term, no
+    // loop over keys
+    const work = this.work;
+    work.profile += profile !== undefined ? profile : 0.5 * (start.profile + end.profile) * dt;
+    work.thrust += 0.5 * (start.thrust + end.thrust) * dt;
+    work.drag += 0.5 * (start.drag + end.drag) * dt;
+    work.magnus += 0.5 * (start.magnus + end.magnus) * dt;
+    work.wind += 0.5 * (start.wind + end.wind) * dt;
+    work.water += 0.5 * (start.water + end.water) * dt;
+    work.rolling += 0.5 * (start.rolling + end.rolling) * dt;
+    work.collisions += 0.5 * (start.collisions + end.collisions) * dt;
+    work.propellant += 0.5 * (start.propellant + end.propellant) * dt;
+    this.power = end;
+  }
+
+  credit(term: WorkTerm, amount: number): void {
+    if (amount === 0) return;
+    this.work[term] += amount;
+    this.power = null;
+  }
+
+  snapshot(): LedgerSnapshot {
+    return { work: { ...this.work }, power: this.power && { ...this.power } };
+  }
+
+  restore(snapshot: LedgerSnapshot): void {
+    Object.assign(this.work, snapshot.work);
+    this.power = snapshot.power && Object.assign(this.powers[0], snapshot.power);
+  }
+
+  sample(time: number, state: ProjectileState): EnergySample {
+    const translational = 0.5 * state.mass * state.velocity.lengthSq();
+    const potential = mechanicalEnergy(state, this.gravity) - translational;
+    const rotational = rotationalEnergy(state);
+    const worked = WORK_TERMS.reduce((sum, term) => sum + this.work[term], 0);
+    return {
+      time,
+      translational,
+      rotational,
+      potential,
+      work: { ...this.work },
+      drift: translational + rotational + potential - this.reference - worked
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import {
+  BounceRecord,
+  ContactPhase,
+  LaunchRecord,
+  PenetrationRecord,
+  SplashEvent
+} from './types';
+
+// Projectile state when an event fired. Copies, so listeners may keep them.
+export interface EventState {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  spin: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  mass: number;
+  phase: ContactPhase;
+}
+
+export interface SimulationEvent {
+  id: string; // Launch id, as on the LaunchRecord
+  time: number; // Flight time (s)
+  state: EventState;
+}
+
+export interface LaunchEvent extends SimulationEvent {
+  record: LaunchRecord;
+}
+
+// Impact with the ground: a bounce, or a body burying itself
+export interface ContactEvent extends SimulationEvent {
+  bounce?: BounceRecord;
+  penetration?: PenetrationRecord;
+}
+
+export interface WaterStrikeEvent extends SimulationEvent {
+  splash: SplashEvent;
+}
+
+// First touchdown after the launch, which ends the carry
+export interface LandingEvent extends SimulationEvent {
+  surface: 'ground' | 'water';
+}
+
+export interface RemovalEvent extends SimulationEvent {
+  record: LaunchRecord;
+}
+
+// Everything SimulationEngine announces, in the order a flight raises them
+export interface SimulationEvents {
+  launch: LaunchEvent;
+  impulseEnd: SimulationEvent; // Launch profile's contact window closed; at once for manual impulses
+  apex: SimulationEvent; // Highest point of the flight, before the first touchdown
+  landing: LandingEvent;
+  contact: ContactEvent;
+  splash: WaterStrikeEvent;
+  rest: SimulationEvent; // Settled: at rest on the ground or afloat, or embedded
+  exit: SimulationEvent; // Left the engine's bounds and was retired in flight
+  removal: RemovalEvent; // Dropped from the engine; its record stays
+}
+
+type Listener<T> = (event: T) => void;
+
+// Typed emitter. Listeners run synchronously, in the order they were added,
+// from inside the simulation step that raised the event.
+export class EventBus<Events> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns a function that removes the listener again
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[type] ?? new Set<Listener<Events[K]>>();
+    this.listeners[type] = set;
+    set.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  once<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    const off = this.on(type, (event) => {
+      off();
+      listener(event);
+    });
+    return off;
+  }
+
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    this.listeners[type]?.delete(listener);
+  }
+
+  // Lets emitters skip building a payload nobody will see
+  has<K extends keyof Events>(type: K): boolean {
+    return (this.listeners[type]?.size ?? 0) > 0;
+  }
+
+  emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    // Copied so a listener removing itself doesn't disturb the loop
+    [...(this.listeners[type] ?? [])].forEach((listener) => listener(event));
+  }
+}
@@ -3,58 +3,148 @@ import { EnvironmentState, ProjectileState } from './types';
 import { 
   reynoldsNumber, 
   dragCoefficient as getDragCoefficient,
-  magnusLiftCoefficient,
-  airViscosity,
-  airDensityAtAltitude,
-  SEA_LEVEL_TEMP
+  magnusLiftCoefficient
 } from './constants';
+import { BODY_AXIS, applyInertia } from './dynamics';
+import { AtmosphereSample, sampleAtmosphere } from './atmosphere';
+import { machDragFactor } from './dragTables';
+import { WindProfile, windAtAltitude } from './windProfile';
+import { coriolisAcceleration as earthCoriolis, curvedAltitude, geophysicalGravity } from './geophysics';
+import { displacedVolume, submergedFraction, waterDensity } from './water';
 
+// Scratch space shared by every force below. Each function is done with it
+// before returning, and results go to the caller's `out`, so evaluating the
+// forces allocates nothing.
 const tmp = new THREE.Vector3();
+const bodyAxis = new THREE.Vector3();
+const windDirection = new THREE.Vector3();
+const localWind = new THREE.Vector3();
+const meanWind = new THREE.Vector3();
+const crossflow = new THREE.Vector3();
+const HEAVE_DAMPING_RATIO = 0.3; // Wave-radiation damping of bobbing, as a fraction of critical
+const WATER_SPIN_DRAG = 0.5; // Skin-friction torque coefficient in water: τ = -C ρ r⁵ |ω| ω
+const air: AtmosphereSample = { temperature: 0, pressure: 0, density: 0, viscosity: 0, speedOfSound: 0 };
+// Wind profile, reference wind and altitude meanWind was last worked out for
+const windFor = { profile: undefined as WindProfile | undefined, reference: new THREE.Vector3(NaN), altitude: NaN };
+// Conditions `air` was last sampled for. Every force on a state samples the
+// same altitude, so only the first of them works the atmosphere out.
+const airFor = { temperature: NaN, pressure: NaN, humidity: NaN, altitude: NaN };
 
-export function gravityForce(state: ProjectileState, environment: EnvironmentState): THREE.Vector3 {
-  return new THREE.Vector3(0, -state.mass * environment.gravity, 0);
+function airAt(state: ProjectileState, environment: EnvironmentState): AtmosphereSample {
+  const altitude = curvedAltitude(environment.geophysics, state.position);
+  if (
+    altitude !== airFor.altitude ||
+    environment.temperature !== airFor.temperature ||
+    environment.pressure !== airFor.pressure ||
+    environment.humidity !== airFor.humidity
+  ) {
+    sampleAtmosphere(environment, altitude, air);
+    airFor.altitude = altitude;
+    airFor.temperature = environment.temperature;
+    airFor.pressure = environment.pressure;
+    airFor.humidity = environment.humidity;
+  }
+  return air;
+}
+
+// Velocity of the body through the air: its velocity less the mean wind at its
+// altitude (from the wind profile) and any turbulence superimposed on it
+export function airRelativeVelocity(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const altitude = curvedAltitude(environment.geophysics, state.position);
+  if (
+    altitude !== windFor.altitude ||
+    environment.windProfile !== windFor.profile ||
+    !environment.windVector.equals(windFor.reference)
+  ) {
+    windAtAltitude(environment.windProfile, environment.windVector, altitude, meanWind);
+    windFor.altitude = altitude;
+    windFor.profile = environment.windProfile;
+    windFor.reference.copy(environment.windVector);
+  }
+  localWind.copy(meanWind);
+  if (environment.windPerturbation) {
+    localWind.add(environment.windPerturbation);
+  }
+  return out.copy(state.velocity).sub(localWind);
+}
+
+// Uniform gravity on a flat Earth; with geophysics enabled, gravitation and
+// the centrifugal term vary with latitude and altitude instead
+export function gravityForce(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  if (environment.geophysics) {
+    return geophysicalGravity(environment.geophysics, state.position, out).multiplyScalar(state.mass);
+  }
+  return out.set(0, -state.mass * environment.gravity, 0);
+}
+
+// Coriolis deflection in the Earth's rotating frame (returns acceleration);
+// zero on a flat, non-rotating Earth
+export function coriolisAcceleration(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  if (!environment.geophysics) {
+    return out.set(0, 0, 0);
+  }
+  return earthCoriolis(environment.geophysics, state.velocity, out);
 }
 
-export function dragForce(state: ProjectileState, environment: EnvironmentState): THREE.Vector3 {
-  const relativeVelocity = tmp
-    .copy(state.velocity)
-    .sub(environment.windVector);
+export function dragForce(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const relativeVelocity = airRelativeVelocity(state, environment, tmp);
   const speed = relativeVelocity.length();
 
   if (speed === 0) {
-    return new THREE.Vector3();
+    return out.set(0, 0, 0);
   }
 
-  // Calculate altitude-dependent air density
-  const altitude = Math.max(0, state.position.y);
-  const rho = airDensityAtAltitude(altitude, environment.airDensity);
+  // Local density and viscosity from the standard atmosphere
+  airAt(state, environment);
+  const rho = air.density;
   
-  // Calculate Reynolds number and get Reynolds-dependent drag coefficient
-  const diameter = state.radius * 2;
-  const mu = airViscosity(SEA_LEVEL_TEMP);
-  const re = reynoldsNumber(speed, diameter, rho, mu);
-  const cd = getDragCoefficient(re, state.dragCoefficient);
+  // Compressibility from the standard drag function; spheres also keep their
+  // Reynolds-number regimes, which the Mach tables don't resolve
+  const mach = speed / air.speedOfSound;
+  let cd = state.dragCoefficient * machDragFactor(state.dragModel, mach);
+  if (state.dragModel === 'sphere') {
+    const diameter = state.radius * 2;
+    const re = reynoldsNumber(speed, diameter, rho, air.viscosity);
+    cd = getDragCoefficient(re, state.dragCoefficient) * machDragFactor('sphere', mach);
+  }
   
   // Equation (12): F_drag = -(1/2)CdρA|v|v
   // Return as acceleration: a = F/m
   const k = 0.5 * cd * rho * state.area / state.mass;
-  return relativeVelocity.clone().multiplyScalar(-k * speed);
+  return out.copy(relativeVelocity).multiplyScalar(-k * speed);
 }
 
-export function magnusForce(state: ProjectileState, environment: EnvironmentState): THREE.Vector3 {
-  const relativeVelocity = tmp
-    .copy(state.velocity)
-    .sub(environment.windVector);
+export function magnusForce(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const relativeVelocity = airRelativeVelocity(state, environment, tmp);
   if (relativeVelocity.lengthSq() === 0 || state.spin.lengthSq() === 0) {
-    return new THREE.Vector3();
+    return out.set(0, 0, 0);
   }
   
   const speed = relativeVelocity.length();
   const spinSpeed = state.spin.length();
   
   // Calculate altitude-dependent air density
-  const altitude = Math.max(0, state.position.y);
-  const rho = airDensityAtAltitude(altitude, environment.airDensity);
+  const rho = airAt(state, environment).density;
   
   // Calculate spin ratio: S = rω/v
   const spinRatio = (state.radius * spinSpeed) / (speed + 0.01); // Avoid division by zero
@@ -65,82 +155,155 @@ export function magnusForce(state: ProjectileState, environment: EnvironmentStat
   // Magnus force: F = (1/2)ρACL(ω × v)
   // Enhanced multiplier for visibility
   const clRho = 0.5 * rho * state.area * cl * 3.0;
-  const lift = new THREE.Vector3().crossVectors(state.spin, relativeVelocity);
-  lift.multiplyScalar(clRho / state.mass);
-  return lift;
+  return out.crossVectors(state.spin, relativeVelocity).multiplyScalar(clRho / state.mass);
 }
 
-export function integrateSpin(state: ProjectileState, dt: number): void {
-  if (state.spin.lengthSq() === 0) return;
-  
-  // Quadratic spin damping: dω/dt = -k*ω²
-  const spinSpeed = state.spin.length();
-  const quadraticDamping = state.spinDamping * spinSpeed * dt;
-  const dampingFactor = 1 / (1 + quadraticDamping);
-  state.spin.multiplyScalar(dampingFactor);
+// Angle between the body's symmetry axis and the relative wind (radians)
+export function angleOfAttack(state: ProjectileState, environment: EnvironmentState): number {
+  const relativeVelocity = airRelativeVelocity(state, environment, tmp);
+  if (relativeVelocity.lengthSq() === 0) return 0;
+  bodyAxis.copy(BODY_AXIS).applyQuaternion(state.rotation);
+  return bodyAxis.angleTo(relativeVelocity);
 }
 
-// Integrate rotation quaternion from angular velocity with gyroscopic effects
-export function integrateRotation(state: ProjectileState, dt: number): void {
-  if (state.spin.lengthSq() === 0) return;
-  
-  // Add gyroscopic precession for asymmetric objects
-  // For simplicity, add small nutation based on moment of inertia differences
-  const I = state.momentOfInertia;
-  const inertiaDiff = Math.abs(I.x - I.y) + Math.abs(I.y - I.z) + Math.abs(I.z - I.x);
-  if (inertiaDiff > 0.001) {
-    // Add small precession perpendicular to spin axis
-    const precessionRate = 0.1 * inertiaDiff;
-    const perpendicular = new THREE.Vector3(
-      state.spin.y - state.spin.z,
-      state.spin.z - state.spin.x,
-      state.spin.x - state.spin.y
-    ).normalize();
-    state.spin.addScaledVector(perpendicular, precessionRate * dt);
+// Axial and normal aerodynamic force on a slender body, as an acceleration:
+//   F = -qS [C_A cosα x̂ + CNα (v̂ - cosα x̂)]
+// x̂ is the body axis and v̂ the relative wind, so the axial part is drag along
+// the body and the normal part (magnitude CNα·sinα) pushes across it
+export function bodyAerodynamicForce(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const aero = state.aerodynamics;
+  const relativeVelocity = airRelativeVelocity(state, environment, tmp);
+  const speed = relativeVelocity.length();
+  if (!aero || speed === 0) {
+    return out.set(0, 0, 0);
   }
-  
-  // Convert angular velocity to quaternion derivative
-  // dq/dt = (1/2) * ω * q where ω is angular velocity as quaternion
-  const halfDt = dt * 0.5;
-  const omega = new THREE.Quaternion(
-    state.spin.x * halfDt,
-    state.spin.y * halfDt,
-    state.spin.z * halfDt,
-    0
-  );
-  
-  // q_new = q + dq/dt * dt = q + (1/2) * ω * q * dt
-  const dq = omega.multiply(state.rotation);
-  state.rotation.x += dq.x;
-  state.rotation.y += dq.y;
-  state.rotation.z += dq.z;
-  state.rotation.w += dq.w;
-  state.rotation.normalize();
+
+  airAt(state, environment);
+  const q = 0.5 * air.density * speed * speed;
+  const axialCoefficient = state.dragCoefficient * machDragFactor(state.dragModel, speed / air.speedOfSound);
+
+  bodyAxis.copy(BODY_AXIS).applyQuaternion(state.rotation);
+  windDirection.copy(relativeVelocity).divideScalar(speed);
+  const cosAlpha = windDirection.dot(bodyAxis);
+  const normal = crossflow.copy(windDirection).addScaledVector(bodyAxis, -cosAlpha);
+
+  return out
+    .copy(bodyAxis)
+    .multiplyScalar(axialCoefficient * cosAlpha)
+    .addScaledVector(normal, aero.normalForceSlope)
+    .multiplyScalar((-q * state.area) / state.mass);
+}
+
+// Static and damping moments on a slender body:
+//   restoring  τ = -qSd Cmα (x̂ × v̂)        turns the nose into the wind when Cmα < 0
+//   damping    τ = qSd²/(2V) (Cmq ω⊥ + Clp ω∥)
+export function bodyAerodynamicTorque(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const aero = state.aerodynamics;
+  const relativeVelocity = airRelativeVelocity(state, environment, tmp);
+  const speed = relativeVelocity.length();
+  if (!aero || speed === 0) {
+    return out.set(0, 0, 0);
+  }
+
+  const rho = airAt(state, environment).density;
+  const diameter = state.radius * 2;
+  const qSd = 0.5 * rho * speed * speed * state.area * diameter;
+
+  bodyAxis.copy(BODY_AXIS).applyQuaternion(state.rotation);
+  windDirection.copy(relativeVelocity).divideScalar(speed);
+  const torque = out.crossVectors(bodyAxis, windDirection).multiplyScalar(-qSd * aero.pitchMomentSlope);
+
+  const rateScale = (qSd * diameter) / (2 * speed);
+  const roll = state.spin.dot(bodyAxis);
+  const transverse = crossflow.copy(state.spin).addScaledVector(bodyAxis, -roll);
+  torque.addScaledVector(transverse, rateScale * aero.pitchDamping);
+  torque.addScaledVector(bodyAxis, rateScale * aero.rollDamping * roll);
+  return torque;
+}
+
+// Quadratic spin damping expressed as a torque: τ = -k|ω|·(I·ω), so each
+// principal rate decays as dω/dt = -k|ω|ω
+export function spinDampingTorque(state: ProjectileState, out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+  if (state.spin.lengthSq() === 0) return out.set(0, 0, 0);
+  applyInertia(state, state.spin, out);
+  return out.multiplyScalar(-state.spinDamping * state.spin.length());
 }
 
 // Calculate aerodynamic torque from drag and unsteady effects
-export function aerodynamicTorque(state: ProjectileState, environment: EnvironmentState): THREE.Vector3 {
-  const relativeVelocity = tmp.copy(state.velocity).sub(environment.windVector);
+export function aerodynamicTorque(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const relativeVelocity = airRelativeVelocity(state, environment, tmp);
   const speed = relativeVelocity.length();
   
   if (speed === 0 || state.spin.lengthSq() === 0) {
-    return new THREE.Vector3();
+    return out.set(0, 0, 0);
   }
   
   // Calculate altitude-dependent air density
-  const altitude = Math.max(0, state.position.y);
-  const rho = airDensityAtAltitude(altitude, environment.airDensity);
+  const rho = airAt(state, environment).density;
   
   const spinSpeed = state.spin.length();
   
   // Torque from drag on spinning body: τ = -C_torque * ρ * r³ * ω² (quadratic)
   const torqueCoeff = 0.15 * rho * Math.pow(state.radius, 3) * spinSpeed;
-  const dragTorque = state.spin.clone().multiplyScalar(-torqueCoeff);
+  const dragTorque = out.copy(state.spin).multiplyScalar(-torqueCoeff);
   
   // Add vortex shedding torque (perpendicular to velocity and spin)
-  const vortexAxis = new THREE.Vector3().crossVectors(relativeVelocity, state.spin).normalize();
+  const vortexAxis = crossflow.crossVectors(relativeVelocity, state.spin).normalize();
   const vortexMagnitude = 0.05 * rho * Math.pow(state.radius, 3) * speed;
   const vortexTorque = vortexAxis.multiplyScalar(vortexMagnitude);
   
   return dragTorque.add(vortexTorque);
 }
+
+// Buoyancy, water drag and heave damping on the submerged share of the body
+// (returns acceleration). The water is still, so drag acts on the velocity itself.
+export function hydrodynamicForce(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const accel = out.set(0, 0, 0);
+  const water = environment.water;
+  const wet = submergedFraction(water, state.position, state.radius);
+  if (!water || wet === 0) return accel;
+
+  const rho = waterDensity(water);
+  // Archimedes: ρ_w V_submerged g, straight up
+  accel.y = (rho * displacedVolume(state) * wet * environment.gravity) / state.mass;
+
+  // F_drag = -(1/2)Cd ρ_w A_wet |v| v, the frontal area wetted in proportion
+  const speed = state.velocity.length();
+  accel.addScaledVector(state.velocity, (-0.5 * state.dragCoefficient * rho * state.area * wet * speed) / state.mass);
+
+  // A body piercing the surface sheds its bobbing into waves; strongest half
+  // submerged, gone once under
+  const naturalFrequency = Math.sqrt(environment.gravity / state.radius);
+  accel.y -= 2 * HEAVE_DAMPING_RATIO * naturalFrequency * 4 * wet * (1 - wet) * state.velocity.y;
+  return accel;
+}
+
+// Skin friction on a body spinning in water: τ = -C ρ_w r⁵ |ω| ω over the wetted share
+export function hydrodynamicTorque(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const torque = out.set(0, 0, 0);
+  const water = environment.water;
+  const wet = submergedFraction(water, state.position, state.radius);
+  if (!water || wet === 0 || state.spin.lengthSq() === 0) return torque;
+  const coefficient = WATER_SPIN_DRAG * waterDensity(water) * state.radius ** 5 * state.spin.length() * wet;
+  return torque.copy(state.spin).multiplyScalar(-coefficient);
+}
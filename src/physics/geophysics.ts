@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+
+// Where and which way the range sits on a spherical, rotating Earth. The scene
+// keeps +Y up at the launch point; azimuth orients +X on the compass.
+export interface GeophysicalSettings {
+  latitude: number; // Launch latitude, positive north (degrees)
+  azimuth: number; // Compass bearing of the scene's +X axis, clockwise from north (degrees)
+}
+
+export const EARTH_RADIUS = 6371000; // Mean radius (m)
+export const EARTH_ROTATION_RATE = 7.2921159e-5; // Sidereal rate (rad/s)
+
+const DEG2RAD = Math.PI / 180;
+// WGS84 normal gravity (Somigliana): equatorial gravity, formula constant k, e²
+const GRAVITY_EQUATOR = 9.7803253359;
+const SOMIGLIANA_K = 0.00193185265241;
+const ECCENTRICITY_SQ = 0.00669437999013;
+
+const centre = new THREE.Vector3();
+const omega = new THREE.Vector3();
+const centrifugal = new THREE.Vector3();
+
+// Effective (gravitation plus centrifugal) gravity on the ellipsoid surface
+export function normalGravity(latitude: number): number {
+  const s = Math.sin(latitude * DEG2RAD);
+  return (GRAVITY_EQUATOR * (1 + SOMIGLIANA_K * s * s)) / Math.sqrt(1 - ECCENTRICITY_SQ * s * s);
+}
+
+// Earth's angular velocity in scene axes: Ω(cosφ·cos az, sinφ, −cosφ·sin az)
+export function earthRotation(settings: GeophysicalSettings, out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+  const latitude = settings.latitude * DEG2RAD;
+  const azimuth = settings.azimuth * DEG2RAD;
+  return out
+    .set(Math.cos(latitude) * Math.cos(azimuth), Math.sin(latitude), -Math.cos(latitude) * Math.sin(azimuth))
+    .multiplyScalar(EARTH_ROTATION_RATE);
+}
+
+// Latitude under a scene position: the launch latitude plus the northward
+// displacement over the radius
+function latitudeAt(settings: GeophysicalSettings, position: THREE.Vector3): number {
+  const azimuth = settings.azimuth * DEG2RAD;
+  const north = position.x * Math.cos(azimuth) - position.z * Math.sin(azimuth);
+  return settings.latitude + (north / EARTH_RADIUS) / DEG2RAD;
+}
+
+// Vector from Earth's centre, which sits one radius below the launch datum
+function fromCentre(position: THREE.Vector3, out: THREE.Vector3): THREE.Vector3 {
+  return out.copy(position).setY(position.y + EARTH_RADIUS);
+}
+
+// Height above the curved datum; equals position.y on a flat Earth
+export function curvedAltitude(settings: GeophysicalSettings | undefined, position: THREE.Vector3): number {
+  if (!settings) return position.y;
+  return fromCentre(position, centre).length() - EARTH_RADIUS;
+}
+
+// How far the curved datum has fallen below the launch tangent plane at a
+// horizontal distance from the origin
+export function curvatureDrop(x: number, z: number): number {
+  const distanceSq = Math.min(x * x + z * z, EARTH_RADIUS * EARTH_RADIUS);
+  return EARTH_RADIUS - Math.sqrt(EARTH_RADIUS * EARTH_RADIUS - distanceSq);
+}
+
+// Gravitation plus the centrifugal acceleration −Ω×(Ω×r). On the real Earth the
+// equatorial bulge tilts gravitation just enough that their sum, normal
+// gravity, points straight down; the surface gravitation here is chosen the
+// same way, then falls off as 1/r² with height while the centrifugal term grows.
+export function geophysicalGravity(
+  settings: GeophysicalSettings,
+  position: THREE.Vector3,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  const r = fromCentre(position, centre);
+  const distance = r.length();
+  earthRotation(settings, omega);
+  centrifugal.crossVectors(omega, r);
+  centrifugal.crossVectors(omega, centrifugal).negate();
+
+  // Surface gravitation g_s = −g_n r̂ − centrifugal(R r̂), scaled by (R/r)²
+  const falloff = (EARTH_RADIUS / distance) ** 2;
+  out
+    .copy(r)
+    .multiplyScalar(-normalGravity(latitudeAt(settings, position)) / distance)
+    .addScaledVector(centrifugal, -EARTH_RADIUS / distance)
+    .multiplyScalar(falloff);
+  return out.add(centrifugal);
+}
+
+// Coriolis acceleration −2Ω×v for a velocity in the rotating scene frame
+export function coriolisAcceleration(
+  settings: GeophysicalSettings,
+  velocity: THREE.Vector3,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  return out.crossVectors(earthRotation(settings, omega), velocity).multiplyScalar(-2);
+}
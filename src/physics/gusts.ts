@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+import { SeededRandom } from './random';
+
+// A single 1-cosine gust: the velocity ramps smoothly from zero to amplitude
+// and back over its duration, u(t) = A/2 (1 - cos(2π (t - start) / duration))
+export interface GustEvent {
+  start: number; // Time after launch (s)
+  duration: number; // s
+  amplitude: number; // Peak gust speed (m/s)
+  heading: number; // Direction the gust blows towards, right-handed about +Y from +X (degrees)
+}
+
+export interface GustSettings {
+  discrete?: GustEvent[]; // Scripted gusts, fired at their start times
+  randomRate?: number; // Mean random gust arrivals per minute (Poisson); 0 disables
+  amplitude?: number; // Mean peak speed of random gusts (m/s)
+  duration?: number; // Mean duration of random gusts (s)
+}
+
+export const DEFAULT_GUSTS: Required<Omit<GustSettings, 'discrete'>> = {
+  randomRate: 3,
+  amplitude: 5,
+  duration: 4
+};
+
+const DEG2RAD = Math.PI / 180;
+const HEADING_SPREAD = 30; // Std. deviation of random gust heading about the mean wind (degrees)
+const SPREAD_FACTOR = 0.5; // Random gust amplitude and duration vary ±50% about the mean
+
+export interface GustSnapshot {
+  random: number;
+  pending: GustEvent[];
+  active: GustEvent[];
+  nextArrival: number;
+}
+
+// Schedules discrete and random gusts for one launch and records every gust
+// as it starts, so the timeline lists exactly what the projectile felt
+export class GustScheduler {
+  readonly timeline: GustEvent[] = [];
+  private random: SeededRandom;
+  private pending: GustEvent[];
+  private active: GustEvent[] = [];
+  private nextArrival: number;
+  private rate: number;
+  private amplitude: number;
+  private duration: number;
+
+  constructor(seed: number, settings: GustSettings = {}) {
+    this.random = new SeededRandom(seed);
+    this.pending = (settings.discrete ?? []).slice().sort((a, b) => a.start - b.start);
+    this.rate = (settings.randomRate ?? DEFAULT_GUSTS.randomRate) / 60;
+    this.amplitude = settings.amplitude ?? DEFAULT_GUSTS.amplitude;
+    this.duration = settings.duration ?? DEFAULT_GUSTS.duration;
+    this.nextArrival = this.interArrival(0);
+  }
+
+  // Gust velocity at a time after launch. Times must not decrease between
+  // calls; random gusts draw their heading from the mean wind when they fire.
+  sample(time: number, meanWind: THREE.Vector3, out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    while (this.pending.length > 0 && this.pending[0].start <= time) {
+      this.fire(this.pending.shift()!);
+    }
+    while (this.nextArrival <= time) {
+      this.fire(this.randomGust(this.nextArrival, meanWind));
+      this.nextArrival = this.interArrival(this.nextArrival);
+    }
+
+    const gust = out.set(0, 0, 0);
+    if (this.active.some((event) => time >= event.start + event.duration)) {
+      this.active = this.active.filter((event) => time < event.start + event.duration);
+    }
+    this.active.forEach((event) => {
+      const phase = (time - event.start) / event.duration;
+      const speed = (event.amplitude / 2) * (1 - Math.cos(2 * Math.PI * phase));
+      const heading = event.heading * DEG2RAD;
+      gust.x += Math.cos(heading) * speed;
+      gust.z -= Math.sin(heading) * speed;
+    });
+    return gust;
+  }
+
+  // Scheduler state only; the timeline is history and is trimmed by its owner
+  snapshot(): GustSnapshot {
+    return {
+      random: this.random.snapshot(),
+      pending: this.pending.slice(),
+      active: this.active.slice(),
+      nextArrival: this.nextArrival
+    };
+  }
+
+  restore(snapshot: GustSnapshot): void {
+    this.random.restore(snapshot.random);
+    this.pending = snapshot.pending.slice();
+    this.active = snapshot.active.slice();
+    this.nextArrival = snapshot.nextArrival;
+  }
+
+  private fire(event: GustEvent): void {
+    this.timeline.push(event);
+    this.active.push(event);
+  }
+
+  // Exponential waiting time of a Poisson process
+  private interArrival(from: number): number {
+    if (this.rate <= 0) return Infinity;
+    return from - Math.log(1 - this.random.next()) / this.rate;
+  }
+
+  private randomGust(start: number, meanWind: THREE.Vector3): GustEvent {
+    const calm = meanWind.x * meanWind.x + meanWind.z * meanWind.z < 1e-6;
+    const heading = calm
+      ? this.random.range(-180, 180)
+      : Math.atan2(-meanWind.z, meanWind.x) / DEG2RAD + this.random.gaussian() * HEADING_SPREAD;
+    return {
+      start,
+      duration: this.duration * this.random.range(1 - SPREAD_FACTOR, 1 + SPREAD_FACTOR),
+      amplitude: this.amplitude * this.random.range(1 - SPREAD_FACTOR, 1 + SPREAD_FACTOR),
+      heading
+    };
+  }
+}
@@ -1,60 +1,212 @@
-import * as THREE from 'three';
-import { ProjectileState, EnvironmentState } from './types';
-
-export type AccelerationFn = (state: ProjectileState, environment: EnvironmentState) => THREE.Vector3;
-
-export function rk4Integrate(
-  state: ProjectileState,
-  environment: EnvironmentState,
-  dt: number,
-  accelerationFn: AccelerationFn
-): void {
-  const k1 = accelerationFn(state, environment);
-  const vel1 = state.velocity.clone();
-
-  const tempState = cloneState(state);
-
-  // k2
-  tempState.position.addScaledVector(vel1, dt * 0.5);
-  tempState.velocity.addScaledVector(k1, dt * 0.5);
-  const k2 = accelerationFn(tempState, environment);
-  const vel2 = tempState.velocity.clone();
-
-  // k3
-  tempState.position.copy(state.position).addScaledVector(vel2, dt * 0.5);
-  tempState.velocity.copy(state.velocity).addScaledVector(k2, dt * 0.5);
-  const k3 = accelerationFn(tempState, environment);
-  const vel3 = tempState.velocity.clone();
-
-  // k4
-  tempState.position.copy(state.position).addScaledVector(vel3, dt);
-  tempState.velocity.copy(state.velocity).addScaledVector(k3, dt);
-  const k4 = accelerationFn(tempState, environment);
-
-  // Aggregate results
-  const velocityDelta = k1.addScaledVector(k2, 2).addScaledVector(k3, 2).add(k4).multiplyScalar(dt / 6);
-  state.velocity.add(velocityDelta);
-
-  const positionDelta = vel1
-    .addScaledVector(vel2, 2)
-    .addScaledVector(vel3, 2)
-    .add(tempState.velocity)
-    .multiplyScalar(dt / 6);
-  state.position.add(positionDelta);
+import { IntegrationStats } from './types';
+import { ERROR_TOLERANCE } from './constants';
+
+// First-order system dy/dt = f(t, y) over a flat state vector laid out as
+// [configuration | rates]: the first `configSize` entries are positions, the
+// remainder the velocities that drive them. Symplectic schemes rely on the split.
+export interface OdeSystem {
+  size: number;
+  configSize: number;
+  derivative(t: number, y: Float64Array, out: Float64Array): void;
+  normalize?(y: Float64Array): void; // Re-project constrained components (e.g. unit quaternions)
 }
 
-function cloneState(state: ProjectileState): ProjectileState {
-  return {
-    position: state.position.clone(),
-    velocity: state.velocity.clone(),
-    spin: state.spin.clone(),
-    rotation: state.rotation.clone(),
-    mass: state.mass,
-    area: state.area,
-    dragCoefficient: state.dragCoefficient,
-    spinDamping: state.spinDamping,
-    restitution: state.restitution,
-    momentOfInertia: state.momentOfInertia.clone(),
-    radius: state.radius
-  };
+export interface Integrator {
+  id: string;
+  label: string;
+  order: number;
+  adaptive: boolean;
+  // Advance y in place from t0 to t0 + dt, recording work done in stats
+  integrate(system: OdeSystem, t0: number, y: Float64Array, dt: number, stats: IntegrationStats): void;
 }
+
+export const DEFAULT_INTEGRATOR = 'rk4';
+
+const MIN_ADAPTIVE_STEP = 1e-6;
+const MAX_STEP_GROWTH = 5;
+const MIN_STEP_SHRINK = 0.2;
+const STEP_SAFETY = 0.9;
+
+const registry = new Map<string, Integrator>();
+
+export function registerIntegrator(integrator: Integrator): void {
+  registry.set(integrator.id, integrator);
+}
+
+export function getIntegrator(id: string): Integrator {
+  const integrator = registry.get(id);
+  if (!integrator) {
+    throw new Error(`Unknown integrator "${id}"`);
+  }
+  return integrator;
+}
+
+export function listIntegrators(): Integrator[] {
+  return Array.from(registry.values());
+}
+
+export function createIntegrationStats(): IntegrationStats {
+  return { steps: 0, rejectedSteps: 0, evaluations: 0, stepSize: 0 };
+}
+
+// Scratch vectors are shared per state size; integrators are never re-entered
+const workspaces = new Map<number, Float64Array[]>();
+
+function workspace(size: number): Float64Array[] {
+  let buffers = workspaces.get(size);
+  if (!buffers) {
+    buffers = Array.from({ length: 10 }, () => new Float64Array(size));
+    workspaces.set(size, buffers);
+  }
+  return buffers;
+}
+
+// Semi-implicit (symplectic) Euler: kick the rates, then drift the configuration
+// using the updated rates
+const semiImplicitEuler: Integrator = {
+  id: 'euler',
+  label: 'Semi-implicit Euler',
+  order: 1,
+  adaptive: false,
+  integrate(system, t0, y, dt, stats) {
+    const [f] = workspace(system.size);
+    system.derivative(t0, y, f);
+    for (let i = system.configSize; i < system.size; i++) y[i] += f[i] * dt;
+    system.derivative(t0 + dt, y, f);
+    for (let i = 0; i < system.configSize; i++) y[i] += f[i] * dt;
+    system.normalize?.(y);
+    stats.steps += 1;
+    stats.evaluations += 2;
+    stats.stepSize = dt;
+  }
+};
+
+// Velocity Verlet in kick-drift-kick form: half kick, full drift, half kick
+const velocityVerlet: Integrator = {
+  id: 'verlet',
+  label: 'Velocity Verlet',
+  order: 2,
+  adaptive: false,
+  integrate(system, t0, y, dt, stats) {
+    const [f] = workspace(system.size);
+    const half = dt * 0.5;
+    system.derivative(t0, y, f);
+    for (let i = system.configSize; i < system.size; i++) y[i] += f[i] * half;
+    system.derivative(t0 + half, y, f);
+    for (let i = 0; i < system.configSize; i++) y[i] += f[i] * dt;
+    system.derivative(t0 + dt, y, f);
+    for (let i = system.configSize; i < system.size; i++) y[i] += f[i] * half;
+    system.normalize?.(y);
+    stats.steps += 1;
+    stats.evaluations += 3;
+    stats.stepSize = dt;
+  }
+};
+
+// Classic fourth-order Runge-Kutta
+const rungeKutta4: Integrator = {
+  id: 'rk4',
+  label: 'Runge-Kutta 4',
+  order: 4,
+  adaptive: false,
+  integrate(system, t0, y, dt, stats) {
+    const n = system.size;
+    const [k1, k2, k3, k4, tmp] = workspace(n);
+    system.derivative(t0, y, k1);
+    for (let i = 0; i < n; i++) tmp[i] = y[i] + k1[i] * dt * 0.5;
+    system.derivative(t0 + dt * 0.5, tmp, k2);
+    for (let i = 0; i < n; i++) tmp[i] = y[i] + k2[i] * dt * 0.5;
+    system.derivative(t0 + dt * 0.5, tmp, k3);
+    for (let i = 0; i < n; i++) tmp[i] = y[i] + k3[i] * dt;
+    system.derivative(t0 + dt, tmp, k4);
+    for (let i = 0; i < n; i++) {
+      y[i] += (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]) * (dt / 6);
+    }
+    system.normalize?.(y);
+    stats.steps += 1;
+    stats.evaluations += 4;
+    stats.stepSize = dt;
+  }
+};
+
+// Dormand-Prince 5(4) tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+// Difference between the 5th- and embedded 4th-order weights
+const DP_E = [71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40];
+
+// Embedded Dormand-Prince RK45 with error-controlled substeps. The step size
+// carried in stats persists between calls so each launch keeps its own rhythm.
+const dormandPrince45: Integrator = {
+  id: 'rk45',
+  label: 'Dormand-Prince RK45',
+  order: 5,
+  adaptive: true,
+  integrate(system, t0, y, dt, stats) {
+    const n = system.size;
+    const buffers = workspace(n);
+    const k = buffers.slice(0, 7);
+    const stage = buffers[7];
+    const next = buffers[8];
+
+    let t = 0;
+    let h = stats.stepSize > 0 ? Math.min(stats.stepSize, dt) : dt;
+    while (t < dt) {
+      const last = h >= dt - t;
+      if (last) h = dt - t;
+
+      system.derivative(t0 + t, y, k[0]);
+      for (let s = 1; s < 7; s++) {
+        const row = DP_A[s];
+        for (let i = 0; i < n; i++) {
+          let acc = 0;
+          for (let j = 0; j < s; j++) acc += row[j] * k[j][i];
+          stage[i] = y[i] + h * acc;
+        }
+        system.derivative(t0 + t + DP_C[s] * h, stage, k[s]);
+      }
+      // Stage 7 is evaluated at the 5th-order solution, which stage already holds
+      next.set(stage);
+      stats.evaluations += 7;
+
+      // Mixed absolute/relative RMS error norm
+      let sum = 0;
+      for (let i = 0; i < n; i++) {
+        let err = 0;
+        for (let j = 0; j < 7; j++) err += DP_E[j] * k[j][i];
+        const scale = ERROR_TOLERANCE * (1 + Math.max(Math.abs(y[i]), Math.abs(next[i])));
+        const ratio = (h * err) / scale;
+        sum += ratio * ratio;
+      }
+      const errorNorm = Math.sqrt(sum / n);
+
+      if (errorNorm <= 1 || h <= MIN_ADAPTIVE_STEP) {
+        y.set(next);
+        system.normalize?.(y);
+        t = last ? dt : t + h;
+        stats.steps += 1;
+        const growth = errorNorm === 0 ? MAX_STEP_GROWTH : STEP_SAFETY * Math.pow(errorNorm, -0.2);
+        const proposed = h * Math.min(MAX_STEP_GROWTH, Math.max(MIN_STEP_SHRINK, growth));
+        // A short final step to land on dt says nothing about the natural step size
+        if (!last || proposed < stats.stepSize || stats.stepSize === 0) {
+          stats.stepSize = proposed;
+        }
+        h = stats.stepSize;
+      } else {
+        stats.rejectedSteps += 1;
+        h = Math.max(MIN_ADAPTIVE_STEP, h * Math.max(MIN_STEP_SHRINK, STEP_SAFETY * Math.pow(errorNorm, -0.2)));
+        stats.stepSize = h;
+      }
+    }
+  }
+};
+
+[semiImplicitEuler, velocityVerlet, rungeKutta4, dormandPrince45].forEach(registerIntegrator);
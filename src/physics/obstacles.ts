@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+
+// Declarative obstacle layouts. Definitions are plain data (tuples rather than
+// three.js objects) so one layout can be shared, serialized and loaded by both
+// the physics engine and the scene without conversion.
+export type Vec3Tuple = [number, number, number];
+
+interface ObstacleBase {
+  id: string;
+  center: Vec3Tuple; // World position of the shape's centre (m)
+  restitution: number; // Combined with the projectile's as √(e_projectile · e_obstacle), like the ground's
+  friction: number; // Coulomb coefficient at the contact
+}
+
+export interface BoxObstacle extends ObstacleBase {
+  shape: 'box';
+  size: Vec3Tuple; // Axis-aligned extents (m)
+}
+
+export interface OrientedBoxObstacle extends ObstacleBase {
+  shape: 'orientedBox';
+  size: Vec3Tuple; // Extents in the box's own axes (m)
+  rotation: Vec3Tuple; // XYZ Euler angles (degrees)
+}
+
+export interface CylinderObstacle extends ObstacleBase {
+  shape: 'cylinder';
+  radius: number;
+  height: number; // Vertical extent centred on `center` (m)
+}
+
+// Thin soft panel, e.g. a goal net: the panel's plane holds its local X and Y
+export interface NetObstacle extends ObstacleBase {
+  shape: 'net';
+  width: number;
+  height: number;
+  yaw: number; // Rotation about world Y (degrees)
+  damping: number; // Fraction of velocity and spin absorbed per contact (0-1)
+}
+
+export type ObstacleDefinition = BoxObstacle | OrientedBoxObstacle | CylinderObstacle | NetObstacle;
+
+export interface ObstacleContact {
+  normal: THREE.Vector3; // Outward surface normal at the contact
+  penetration: number; // Overlap of the projectile sphere with the shape (m)
+}
+
+export const NET_THICKNESS = 0.04; // Collision thickness of a net panel (m)
+
+const DEG2RAD = Math.PI / 180;
+
+// Sphere against an axis-aligned box given in local coordinates (centred on the
+// origin). Handles the centre being inside the box by pushing out through the
+// nearest face.
+function sphereBoxContact(local: THREE.Vector3, half: THREE.Vector3, radius: number): ObstacleContact | null {
+  const closest = new THREE.Vector3(
+    THREE.MathUtils.clamp(local.x, -half.x, half.x),
+    THREE.MathUtils.clamp(local.y, -half.y, half.y),
+    THREE.MathUtils.clamp(local.z, -half.z, half.z)
+  );
+  const offset = local.clone().sub(closest);
+  const distance = offset.length();
+  if (distance > 1e-9) {
+    if (distance >= radius) return null;
+    return { normal: offset.divideScalar(distance), penetration: radius - distance };
+  }
+
+  // Centre inside: leave through the face with the least overlap
+  const depths = [half.x - Math.abs(local.x), half.y - Math.abs(local.y), half.z - Math.abs(local.z)];
+  const axis = depths.indexOf(Math.min(...depths));
+  const normal = new THREE.Vector3();
+  normal.setComponent(axis, local.getComponent(axis) >= 0 ? 1 : -1);
+  return { normal, penetration: depths[axis] + radius };
+}
+
+// Static collider built from one definition. Contacts are tested against the
+// projectile's bounding sphere.
+export abstract class ObstacleCollider {
+  constructor(readonly definition: ObstacleDefinition) {}
+
+  abstract contact(position: THREE.Vector3, radius: number): ObstacleContact | null;
+
+  // Velocity and spin fraction absorbed per contact on top of the impulse
+  get damping(): number {
+    return 0;
+  }
+}
+
+class BoxCollider extends ObstacleCollider {
+  private center: THREE.Vector3;
+  private half: THREE.Vector3;
+
+  constructor(definition: BoxObstacle) {
+    super(definition);
+    this.center = new THREE.Vector3(...definition.center);
+    this.half = new THREE.Vector3(...definition.size).multiplyScalar(0.5);
+  }
+
+  contact(position: THREE.Vector3, radius: number): ObstacleContact | null {
+    return sphereBoxContact(position.clone().sub(this.center), this.half, radius);
+  }
+}
+
+// Box in its own frame: transform the query into local axes and the normal back
+class OrientedBoxCollider extends ObstacleCollider {
+  private center: THREE.Vector3;
+  private half: THREE.Vector3;
+  private rotation: THREE.Quaternion;
+  private inverse: THREE.Quaternion;
+
+  constructor(definition: ObstacleDefinition, size: Vec3Tuple, rotation: THREE.Quaternion) {
+    super(definition);
+    this.center = new THREE.Vector3(...definition.center);
+    this.half = new THREE.Vector3(...size).multiplyScalar(0.5);
+    this.rotation = rotation;
+    this.inverse = rotation.clone().invert();
+  }
+
+  contact(position: THREE.Vector3, radius: number): ObstacleContact | null {
+    const local = position.clone().sub(this.center).applyQuaternion(this.inverse);
+    const hit = sphereBoxContact(local, this.half, radius);
+    if (hit) {
+      hit.normal.applyQuaternion(this.rotation);
+    }
+    return hit;
+  }
+}
+
+// Vertical solid cylinder with flat caps
+class CylinderCollider extends ObstacleCollider {
+  private center: THREE.Vector3;
+
+  constructor(private shape: CylinderObstacle) {
+    super(shape);
+    this.center = new THREE.Vector3(...shape.center);
+  }
+
+  contact(position: THREE.Vector3, radius: number): ObstacleContact | null {
+    const dx = position.x - this.center.x;
+    const dy = position.y - this.center.y;
+    const dz = position.z - this.center.z;
+    const halfHeight = this.shape.height / 2;
+    const radial = Math.hypot(dx, dz);
+
+    // Closest point on the solid
+    const scale = radial > this.shape.radius ? this.shape.radius / radial : 1;
+    const cy = THREE.MathUtils.clamp(dy, -halfHeight, halfHeight);
+    const offset = new THREE.Vector3(dx - dx * scale, dy - cy, dz - dz * scale);
+    const distance = offset.length();
+    if (distance > 1e-9) {
+      if (distance >= radius) return null;
+      return { normal: offset.divideScalar(distance), penetration: radius - distance };
+    }
+
+    // Centre inside: leave through the side or a cap, whichever is nearer
+    const sideDepth = this.shape.radius - radial;
+    const capDepth = halfHeight - Math.abs(dy);
+    if (capDepth < sideDepth || radial < 1e-9) {
+      return { normal: new THREE.Vector3(0, Math.sign(dy) || 1, 0), penetration: capDepth + radius };
+    }
+    return { normal: new THREE.Vector3(dx / radial, 0, dz / radial), penetration: sideDepth + radius };
+  }
+}
+
+class NetCollider extends OrientedBoxCollider {
+  constructor(private net: NetObstacle) {
+    super(
+      net,
+      [net.width, net.height, NET_THICKNESS],
+      new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), net.yaw * DEG2RAD)
+    );
+  }
+
+  get damping(): number {
+    return this.net.damping;
+  }
+}
+
+export function createObstacleCollider(definition: ObstacleDefinition): ObstacleCollider {
+  switch (definition.shape) {
+    case 'box':
+      return new BoxCollider(definition);
+    case 'orientedBox': {
+      const [x, y, z] = definition.rotation;
+      const rotation = new THREE.Quaternion().setFromEuler(
+        new THREE.Euler(x * DEG2RAD, y * DEG2RAD, z * DEG2RAD)
+      );
+      return new OrientedBoxCollider(definition, definition.size, rotation);
+    }
+    case 'cylinder':
+      return new CylinderCollider(definition);
+    case 'net':
+      return new NetCollider(definition);
+  }
+}
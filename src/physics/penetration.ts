@@ -0,0 +1,33 @@
+// Poncelet's resistance law for a body driven into soft ground:
+//   m dv/dt = -A (α + β v²)
+// α is the target's strength, felt even at low speed, and β its inertial
+// resistance, of the order of its density. Both integrate in closed form.
+export interface PenetrationResistance {
+  strength: number; // α (Pa)
+  inertia: number; // β (kg/m³)
+}
+
+export interface PonceletResult {
+  pathLength: number; // Distance travelled through the target before stopping (m)
+  duration: number; // Time taken to stop (s)
+  peakDeceleration: number; // At the moment of entry (m/s²)
+  meanDeceleration: number; // Entry speed squared over twice the path (m/s²)
+}
+
+// Stopping path x = m/(2βA) · ln(1 + βv²/α) and time t = m/(A√(αβ)) · atan(v√(β/α))
+export function poncelet(
+  mass: number,
+  area: number,
+  speed: number,
+  resistance: PenetrationResistance
+): PonceletResult {
+  const { strength, inertia } = resistance;
+  const pathLength = (mass / (2 * inertia * area)) * Math.log(1 + (inertia * speed * speed) / strength);
+  const duration = (mass / (area * Math.sqrt(strength * inertia))) * Math.atan(speed * Math.sqrt(inertia / strength));
+  return {
+    pathLength,
+    duration,
+    peakDeceleration: (area * (strength + inertia * speed * speed)) / mass,
+    meanDeceleration: pathLength > 0 ? (speed * speed) / (2 * pathLength) : 0
+  };
+}
@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+
+// Solid motor carried by a projectile. Propellant is part of the projectile's
+// loaded mass and is consumed in proportion to the impulse delivered, so a
+// regressive curve sheds mass fastest early in the burn.
+export interface RocketMotor {
+  thrustCurve: Array<[number, number]>; // [fraction of burn time, thrust (N)] in ascending time
+  burnTime: number; // s
+  propellantMass: number; // kg
+  nozzleDirection: THREE.Vector3; // Exhaust direction in body axes; thrust acts the opposite way
+  ignitionDelay?: number; // Time after launch the motor lights (s)
+}
+
+export type MotorPhase = 'unlit' | 'burning' | 'burnout';
+
+// Time-resolved thrust and mass properties for one motor on one projectile.
+// Moments of inertia shrink with the propellant, scaled by the mass ratio.
+export class Propulsion {
+  private cumulative: number[]; // Impulse delivered up to each curve row (N·s)
+  private thrustAxis: THREE.Vector3;
+  private ignition: number;
+
+  constructor(
+    readonly motor: RocketMotor,
+    private loadedMass: number,
+    private loadedInertia: THREE.Vector3
+  ) {
+    const curve = motor.thrustCurve;
+    this.cumulative = [0];
+    for (let i = 1; i < curve.length; i++) {
+      const dt = (curve[i][0] - curve[i - 1][0]) * motor.burnTime;
+      this.cumulative.push(this.cumulative[i - 1] + 0.5 * (curve[i][1] + curve[i - 1][1]) * dt);
+    }
+    this.thrustAxis = motor.nozzleDirection.clone().normalize().negate();
+    this.ignition = motor.ignitionDelay ?? 0;
+  }
+
+  get ignitionTime(): number {
+    return this.ignition;
+  }
+
+  get burnoutTime(): number {
+    return this.ignition + this.motor.burnTime;
+  }
+
+  phase(t: number): MotorPhase {
+    if (t < this.ignition) return 'unlit';
+    return t < this.burnoutTime ? 'burning' : 'burnout';
+  }
+
+  // Thrust magnitude at a time after launch, linear between curve rows
+  thrust(t: number): number {
+    if (this.phase(t) !== 'burning') return 0;
+    const [row, s] = this.locate(t);
+    const curve = this.motor.thrustCurve;
+    return curve[row][1] + (curve[row + 1][1] - curve[row][1]) * s;
+  }
+
+  // Body-frame thrust vector along the nozzle axis
+  thrustVector(t: number, out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    return out.copy(this.thrustAxis).multiplyScalar(this.thrust(t));
+  }
+
+  mass(t: number): number {
+    return this.loadedMass - this.motor.propellantMass * this.burnedFraction(t);
+  }
+
+  inertia(t: number, out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    return out.copy(this.loadedInertia).multiplyScalar(this.mass(t) / this.loadedMass);
+  }
+
+  // Share of the total impulse delivered so far, integrated exactly over the
+  // piecewise-linear curve
+  private burnedFraction(t: number): number {
+    const total = this.cumulative[this.cumulative.length - 1];
+    const phase = this.phase(t);
+    if (phase === 'unlit' || total <= 0) return 0;
+    if (phase === 'burnout') return 1;
+    const [row, s] = this.locate(t);
+    const curve = this.motor.thrustCurve;
+    const span = (curve[row + 1][0] - curve[row][0]) * this.motor.burnTime;
+    const start = curve[row][1];
+    const end = start + (curve[row + 1][1] - start) * s;
+    return (this.cumulative[row] + 0.5 * (start + end) * span * s) / total;
+  }
+
+  // Curve row at or before t and the fraction of the way to the next row
+  private locate(t: number): [number, number] {
+    const curve = this.motor.thrustCurve;
+    const x = (t - this.ignition) / this.motor.burnTime;
+    let row = 0;
+    while (row < curve.length - 2 && curve[row + 1][0] <= x) row++;
+    const width = curve[row + 1][0] - curve[row][0];
+    return [row, width > 0 ? THREE.MathUtils.clamp((x - curve[row][0]) / width, 0, 1) : 0];
+  }
+}
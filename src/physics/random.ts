@@ -0,0 +1,55 @@
+// Deterministic pseudo-random generator (mulberry32). Every stochastic input to
+// the simulation draws from one of these so a launch can be replayed exactly.
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  // Standard normal deviate (Box-Muller)
+  gaussian(): number {
+    const u = Math.max(this.next(), 1e-12);
+    const v = this.next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  nextSeed(): number {
+    return Math.floor(this.next() * 4294967296) >>> 0;
+  }
+
+  // Position in the stream, to rewind to later
+  snapshot(): number {
+    return this.state;
+  }
+
+  restore(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+// Mix a parent seed with a stream index so independent consumers never share a sequence
+export function deriveSeed(seed: number, index: number): number {
+  let h = (seed ^ Math.imul(index + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Fresh session seed; the only place the simulation touches Math.random
+export function createSessionSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -1,117 +1,603 @@
 import * as THREE from 'three';
 import {
+  BounceRecord,
+  CollisionRecord,
+  ContactPhase,
+  EnergySample,
+  EnergyWork,
   EnvironmentState,
-  LaunchHandle,
+  IntegrationStats,
   LaunchParameters,
   LaunchRecord,
-  MaterialPalette,
+  PenetrationRecord,
+  ProjectileSnapshot,
+  PropulsionEvent,
   ProjectileState,
+  SplashEvent,
   TelemetrySample
 } from './types';
-import { dragForce, gravityForce, integrateSpin, magnusForce, integrateRotation, aerodynamicTorque } from './forces';
-import { rk4Integrate } from './integrators';
-import { MAX_TIME_STEP, MIN_TIME_STEP, ERROR_TOLERANCE } from './constants';
-import { TurbulenceField } from './turbulence';
+import {
+  airRelativeVelocity,
+  angleOfAttack,
+  aerodynamicTorque,
+  bodyAerodynamicForce,
+  bodyAerodynamicTorque,
+  coriolisAcceleration,
+  dragForce,
+  gravityForce,
+  hydrodynamicForce,
+  hydrodynamicTorque,
+  magnusForce,
+  spinDampingTorque
+} from './forces';
+import { DEFAULT_INTEGRATOR, Integrator, createIntegrationStats, getIntegrator } from './integrators';
+import {
+  BODY_AXIS,
+  DriveFn,
+  DriveLoad,
+  ProjectileDynamics,
+  STATE_SIZE,
+  applyInertia,
+  applyInverseInertia,
+  kineticEnergy,
+  packState,
+  unpackState
+} from './dynamics';
+import { MAX_TIME_STEP, MIN_TIME_STEP, SIMULATION_TICK, MAX_FRAME_TIME } from './constants';
+import { TurbulenceField, TurbulenceSnapshot } from './turbulence';
+import { GustScheduler, GustSnapshot } from './gusts';
+import { sampleAtmosphere } from './atmosphere';
+import { windAtAltitude } from './windProfile';
+import { curvatureDrop, curvedAltitude, normalGravity } from './geophysics';
+import { Propulsion } from './propulsion';
+import { poncelet } from './penetration';
+import { EnergyLedger, LedgerSnapshot, WorkTerm } from './energy';
+import { EventBus, EventState, SimulationEvent, SimulationEvents } from './events';
+import { createSessionSeed, deriveSeed } from './random';
+import { Heightfield } from './terrain';
+import { applyContactImpulse, applySlidingFriction } from './contact';
+import { DEFAULT_SURFACE, SurfaceMap, SurfaceMapDefinition, SurfaceMaterial } from './surfaces';
+import {
+  DEFAULT_WATER_BED,
+  WaterBody,
+  applySkip,
+  displacedVolume,
+  skipsOffWater,
+  submergedFraction,
+  waterAt,
+  waterDensity
+} from './water';
+import { ObstacleCollider, ObstacleDefinition, createObstacleCollider } from './obstacles';
+import {
+  CollisionBody,
+  ProjectileContact,
+  SpatialHash,
+  detectProjectileContact,
+  resolveProjectileContact
+} from './collisions';
 
-const MAX_TRAIL_POINTS = 360;
-const REST_THRESHOLD = 0.15; // Lower threshold for more accurate settling
+const REST_THRESHOLD = 0.15; // Speed (and contact-point spin speed) below which a grounded body stops (m/s)
+const MIN_BOUNCE_SPEED = 0.5; // Normal impact speed recorded as a bounce; slower contacts just settle (m/s)
+const EMBED_DEPTH_FRACTION = 0.1; // Penetration depth, as a share of the radius, past which the ground holds the body
 const TELEMETRY_INTERVAL = 0.08;
-const ROLLING_FRICTION_COEFF = 0.02; // Rolling friction coefficient
 const GROUND_CONTACT_TOLERANCE = 0.005; // How close to ground counts as contact
+export const DEFAULT_PLAYBACK_RATE = 1.5; // Simulated seconds per wall-clock second
+const DEFAULT_REPLAY_DURATION = 120; // s of simulated flight before a replay gives up
+const MIN_HASH_CELL = 1; // Smallest broad-phase cell edge (m)
+const CONTACT_SLOP = 1e-4; // Overlap targeted when sweeping to first contact (m)
+const WATER_STEP_FRACTION = 0.5; // Largest substep in water as a share of the drag decay time m/(½CdρA|v|)
+const MIN_SPLASH_SPEED = 2; // Surface strike recorded as a splash; slower bobbing just crosses it (m/s)
+const FLOAT_REST_ACCELERATION = 0.5; // Net heave acceleration below which a slow floating body rests (m/s²)
+const CHECKPOINT_TICKS = 10; // Ticks between history checkpoints
+const MAX_CHECKPOINTS = 36000; // An hour of history at the default cadence; the oldest go first
+const TIME_EPSILON = 1e-9; // s
+const PULSE_SAMPLES = 16; // Launcher force samples per substep while it drives
+
+// Scratch for summing forces and powers; every RK stage of every substep of
+// every projectile passes through here, so nothing in it allocates
+const force = new THREE.Vector3();
+const moment = new THREE.Vector3();
+const damping = new THREE.Vector3();
+const relativeAir = new THREE.Vector3();
+const windVelocity = new THREE.Vector3();
+const meanWindAt = new THREE.Vector3();
+const gust = new THREE.Vector3();
+// Scratch for the projectile broad and narrow phases, once per tick
+const boundsMin = new THREE.Vector3();
+const boundsMax = new THREE.Vector3();
+const endA = new THREE.Vector3();
+const endB = new THREE.Vector3();
+const sweepOffset = new THREE.Vector3();
+const sweepDrift = new THREE.Vector3();
+const sweepMotion = new THREE.Vector3();
+const startVelocity = new THREE.Vector3();
+const startSpin = new THREE.Vector3();
+const pulseImpulse = new THREE.Vector3();
+const pulseDelivered = new THREE.Vector3();
+const steadyChange = new THREE.Vector3();
+const sampleVelocity = new THREE.Vector3();
+const sampleSpin = new THREE.Vector3();
 
-// Variable surface properties
-interface SurfaceProperties {
-  friction: number;
-  restitution: number;
+interface GroundContact {
+  normal: THREE.Vector3; // Terrain normal under the projectile
+  clearance: number; // Gap between the projectile surface and the terrain along the normal (m)
+  material: SurfaceMaterial; // Ground material under the contact point
+}
+
+// The same launch flown over a flat, non-rotating Earth alongside the real one,
+// so telemetry can report how far rotation and curvature moved the projectile.
+// It feels the same wind and gusts and stops at its first touch of the ground.
+interface FlatEarthShadow {
+  state: ProjectileState;
+  environment: EnvironmentState;
+  dynamics: ProjectileDynamics;
+  stateVector: Float64Array;
+  integration: IntegrationStats;
+  landed: boolean;
 }
 
 interface ProjectileInstance {
   id: string;
-  mesh: THREE.Object3D;
-  trail: THREE.Line;
-  positions: Float32Array;
   state: ProjectileState;
   environment: EnvironmentState;
   params: LaunchParameters;
+  turbulence: TurbulenceField;
+  gusts: GustScheduler;
+  integrator: Integrator;
+  drive: DriveFn;
+  dynamics: ProjectileDynamics;
+  stateVector: Float64Array;
+  integration: IntegrationStats;
   elapsed: number;
   telemetryTimer: number;
   samples: TelemetrySample[];
+  ledger: EnergyLedger;
+  energy: EnergySample[];
+  collisions: CollisionRecord[];
+  collisionBody: CollisionBody;
+  shadow?: FlatEarthShadow;
+  propulsion?: Propulsion;
+  propulsionEvents: PropulsionEvent[];
+  bounces: BounceRecord[];
+  splashes: SplashEvent[];
+  penetration?: PenetrationRecord;
+  origin: THREE.Vector3; // Launch position
+  phase: ContactPhase;
   summary?: LaunchRecord['summary'];
   isGrounded: boolean;
   active: boolean;
+  impulseEnd: number; // When the launch profile lets go (s)
+  impulseEnded: boolean;
+  apexReached: boolean;
+  touchedDown: boolean;
   colorHex: number;
+  snapshot: ProjectileSnapshot; // Reused by getActiveProjectiles
+}
+
+// The parts of a body's state that change in flight, packed as the integrator's
+// state vector followed by the mass and principal moments
+const KINEMATICS_SIZE = STATE_SIZE + 4;
+
+// Everything about a projectile in flight that changes as it flies, enough to
+// rewind it to this moment and run on from there
+interface ProjectileCheckpoint {
+  instance: ProjectileInstance;
+  kinematics: Float64Array;
+  elapsed: number;
+  telemetryTimer: number;
+  phase: ContactPhase;
+  isGrounded: boolean;
+  impulseEnded: boolean;
+  apexReached: boolean;
+  touchedDown: boolean;
+  integration: IntegrationStats;
+  turbulence: TurbulenceSnapshot;
+  gusts: GustSnapshot;
+  ledger: LedgerSnapshot;
+  history: number[]; // Lengths of the record arrays (see historyOf)
+  shadow?: { kinematics: Float64Array; integration: IntegrationStats; landed: boolean };
+}
+
+interface EngineCheckpoint {
+  time: number;
+  projectiles: ProjectileCheckpoint[]; // Those in flight
+}
+
+// Weather that can be changed under launches already in flight
+export type FlightWeather = Pick<EnvironmentState, 'temperature' | 'pressure' | 'humidity' | 'windVector' | 'windProfile'>;
+
+// One array per body, so a checkpoint of a salvo isn't six objects a projectile
+function saveKinematics(state: ProjectileState): Float64Array {
+  const saved = new Float64Array(KINEMATICS_SIZE);
+  packState(state, saved);
+  saved[STATE_SIZE] = state.mass;
+  state.momentOfInertia.toArray(saved, STATE_SIZE + 1);
+  return saved;
+}
+
+// In place: the dynamics and collision bodies hold on to the state objects
+function loadKinematics(state: ProjectileState, saved: Float64Array): void {
+  unpackState(saved, state);
+  state.mass = saved[STATE_SIZE];
+  state.momentOfInertia.fromArray(saved, STATE_SIZE + 1);
+}
+
+// Record arrays a projectile only ever appends to
+function historyOf(projectile: ProjectileInstance): unknown[][] {
+  return [
+    projectile.samples,
+    projectile.energy,
+    projectile.collisions,
+    projectile.bounces,
+    projectile.splashes,
+    projectile.propulsionEvents,
+    projectile.gusts.timeline
+  ];
+}
+
+function captureCheckpoint(projectile: ProjectileInstance): ProjectileCheckpoint {
+  const shadow = projectile.shadow;
+  return {
+    instance: projectile,
+    kinematics: saveKinematics(projectile.state),
+    elapsed: projectile.elapsed,
+    telemetryTimer: projectile.telemetryTimer,
+    phase: projectile.phase,
+    isGrounded: projectile.isGrounded,
+    impulseEnded: projectile.impulseEnded,
+    apexReached: projectile.apexReached,
+    touchedDown: projectile.touchedDown,
+    integration: { ...projectile.integration },
+    turbulence: projectile.turbulence.snapshot(),
+    gusts: projectile.gusts.snapshot(),
+    ledger: projectile.ledger.snapshot(),
+    history: historyOf(projectile).map((entries) => entries.length),
+    shadow: shadow && {
+      kinematics: saveKinematics(shadow.state),
+      integration: { ...shadow.integration },
+      landed: shadow.landed
+    }
+  };
+}
+
+// Record arrays are left alone: they keep the history beyond the checkpoint
+// until the run branches from it. The stats restore into a copy for the same
+// reason, which the record takes on when it does.
+function restoreCheckpoint(saved: ProjectileCheckpoint): ProjectileInstance {
+  const projectile = saved.instance;
+  loadKinematics(projectile.state, saved.kinematics);
+  projectile.elapsed = saved.elapsed;
+  projectile.telemetryTimer = saved.telemetryTimer;
+  projectile.phase = saved.phase;
+  projectile.isGrounded = saved.isGrounded;
+  projectile.impulseEnded = saved.impulseEnded;
+  projectile.apexReached = saved.apexReached;
+  projectile.touchedDown = saved.touchedDown;
+  projectile.active = true;
+  projectile.summary = undefined;
+  projectile.penetration = undefined;
+  projectile.integration = { ...saved.integration };
+  projectile.turbulence.restore(saved.turbulence);
+  projectile.gusts.restore(saved.gusts);
+  projectile.ledger.restore(saved.ledger);
+  if (projectile.shadow && saved.shadow) {
+    loadKinematics(projectile.shadow.state, saved.shadow.kinematics);
+    Object.assign(projectile.shadow.integration, saved.shadow.integration);
+    projectile.shadow.landed = saved.shadow.landed;
+  }
+  return projectile;
+}
+
+// Resting and embedded bodies have finished their flight
+function isSettled(phase: ContactPhase): boolean {
+  return phase === 'rest' || phase === 'embedded';
 }
 
 // State space acceleration function following Equation (15)
 // Returns total acceleration: a = F_gravity/m + F_drag/m + F_magnus/m
-function totalAcceleration(state: ProjectileState, environment: EnvironmentState): THREE.Vector3 {
-  const accel = new THREE.Vector3();
+function totalAcceleration(state: ProjectileState, environment: EnvironmentState, out: THREE.Vector3): THREE.Vector3 {
+  const accel = out.set(0, 0, 0);
   // Forces are already returned as accelerations (F/m) from force functions
-  accel.add(gravityForce(state, environment).multiplyScalar(1 / state.mass));
-  accel.add(dragForce(state, environment)); // Already returns acceleration
-  accel.add(magnusForce(state, environment)); // Already returns acceleration
+  accel.add(gravityForce(state, environment, force).multiplyScalar(1 / state.mass));
+  // Air loads act on the share of the body above any water
+  const dry = 1 - submergedFraction(environment.water, state.position, state.radius);
+  // Slender bodies with an aerodynamic model feel axial and normal forces that
+  // depend on attitude; everything else is a sphere
+  accel.addScaledVector(
+    state.aerodynamics ? bodyAerodynamicForce(state, environment, force) : dragForce(state, environment, force),
+    dry
+  );
+  accel.addScaledVector(magnusForce(state, environment, force), dry); // Already returns acceleration
+  accel.add(hydrodynamicForce(state, environment, force)); // Zero out of the water
+  accel.add(coriolisAcceleration(state, environment, force)); // Zero unless the Earth rotates
   return accel;
 }
 
+// Total world-frame torque on the body: aerodynamic torques on the dry share,
+// water friction on the wet share, plus spin damping
+function totalTorque(state: ProjectileState, environment: EnvironmentState, out: THREE.Vector3): THREE.Vector3 {
+  const aero = state.aerodynamics
+    ? bodyAerodynamicTorque(state, environment, out)
+    : aerodynamicTorque(state, environment, out);
+  const dry = 1 - submergedFraction(environment.water, state.position, state.radius);
+  return aero
+    .multiplyScalar(dry)
+    .add(hydrodynamicTorque(state, environment, moment))
+    .add(spinDampingTorque(state, damping));
+}
+
+// Power each force delivers to the body (W), split the way the energy ledger
+// books it. Mirrors totalAcceleration, totalTorque and the drive; gravity is
+// left out since the ledger carries it as potential energy, and the Coriolis
+// force is always square to the velocity. Written to power and returned.
+function forcePowers(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  drive: DriveFn,
+  t: number,
+  power: EnergyWork
+): EnergyWork {
+  // Only the drive sets these, and no force here books the rest
+  power.profile = 0;
+  power.thrust = 0;
+  power.rolling = 0;
+  power.collisions = 0;
+  power.propellant = 0;
+  const dry = 1 - submergedFraction(environment.water, state.position, state.radius);
+  const relative = airRelativeVelocity(state, environment, relativeAir);
+  const wind = windVelocity.copy(state.velocity).sub(relative);
+  const aero = (
+    state.aerodynamics ? bodyAerodynamicForce(state, environment, force) : dragForce(state, environment, force)
+  ).multiplyScalar(state.mass * dry);
+  const aeroTorque = state.aerodynamics
+    ? bodyAerodynamicTorque(state, environment, moment)
+    : aerodynamicTorque(state, environment, moment);
+
+  const torque = aeroTorque.multiplyScalar(dry).add(spinDampingTorque(state, damping));
+
+  // Drag dissipates relative to the air; what it does through the wind's own
+  // motion is booked to the wind
+  power.drag = aero.dot(relative) + torque.dot(state.spin);
+  power.wind = aero.dot(wind);
+  power.magnus = magnusForce(state, environment, force).multiplyScalar(state.mass * dry).dot(state.velocity);
+  power.water =
+    hydrodynamicForce(state, environment, force).multiplyScalar(state.mass).dot(state.velocity) +
+    hydrodynamicTorque(state, environment, moment).dot(state.spin);
+
+  const load = drive(t);
+  if (load) {
+    power.profile = load.force.dot(state.velocity);
+    if (load.angularAcceleration) {
+      power.profile += applyInertia(state, load.angularAcceleration, force).dot(state.spin);
+    }
+    if (load.bodyForce) {
+      power.thrust = force.copy(load.bodyForce).applyQuaternion(state.rotation).dot(state.velocity);
+    }
+  }
+  return power;
+}
+
+// Work the launcher does over one substep that started from startVelocity and
+// startSpin. Its pulse rises and falls within a few substeps, too fast for the
+// trapezoidal rule, so its power is summed at midpoints across the substep: the
+// velocity at each follows the impulse delivered so far plus an even share of
+// the rest of the change, and the spin, under a constant spin-up, runs linearly.
+function profileWork(state: ProjectileState, drive: DriveFn, t0: number, dt: number): number {
+  const slice = dt / PULSE_SAMPLES;
+  pulseImpulse.set(0, 0, 0);
+  for (let i = 0; i < PULSE_SAMPLES; i++) {
+    const load = drive(t0 + (i + 0.5) * slice);
+    if (load) pulseImpulse.addScaledVector(load.force, slice / state.mass);
+  }
+  steadyChange.copy(state.velocity).sub(startVelocity).sub(pulseImpulse);
+
+  let work = 0;
+  pulseDelivered.set(0, 0, 0);
+  for (let i = 0; i < PULSE_SAMPLES; i++) {
+    const fraction = (i + 0.5) / PULSE_SAMPLES;
+    const load = drive(t0 + fraction * dt);
+    if (!load) continue;
+    sampleVelocity
+      .copy(startVelocity)
+      .addScaledVector(steadyChange, fraction)
+      .add(pulseDelivered)
+      .addScaledVector(load.force, (0.5 * slice) / state.mass);
+    work += load.force.dot(sampleVelocity) * slice;
+    if (load.angularAcceleration) {
+      sampleSpin.lerpVectors(startSpin, state.spin, fraction);
+      work += applyInertia(state, load.angularAcceleration, force).dot(sampleSpin) * slice;
+    }
+    pulseDelivered.addScaledVector(load.force, slice / state.mass);
+  }
+  return work;
+}
+
+// Launch profile force and spin-up over its contact window (manual launches are
+// a single instantaneous impulse applied at t = 0 instead), plus motor thrust
+// and the shrinking mass properties when the projectile carries a motor. The
+// loads are filled in place, so a load is only good until the next call.
+function launchDrive(params: LaunchParameters, propulsion?: Propulsion): DriveFn {
+  const profile = params.profile;
+  const contact: DriveLoad = {
+    force: new THREE.Vector3(),
+    angularAcceleration: profile.spinAxis.clone().multiplyScalar(profile.spinRate)
+  };
+  const launcher: DriveFn = params.manualConfig
+    ? () => null
+    : (t) => (t >= 0 && t <= profile.duration ? (profile.impulse(t, contact.force), contact) : null);
+  if (!propulsion) {
+    return launcher;
+  }
+  const coasting: DriveLoad = { force: new THREE.Vector3() };
+  const bodyForce = new THREE.Vector3();
+  const inertia = new THREE.Vector3();
+  return (t) => {
+    const load = launcher(t) ?? coasting;
+    load.bodyForce = propulsion.thrustVector(t, bodyForce);
+    load.mass = propulsion.mass(t);
+    load.inertia = propulsion.inertia(t, inertia);
+    return load;
+  };
+}
+
+// Bring the live state's mass properties up to date after a step
+function applyMassProperties(state: ProjectileState, propulsion: Propulsion, t: number): void {
+  state.mass = propulsion.mass(t);
+  propulsion.inertia(t, state.momentOfInertia);
+}
+
+// Initial attitude: point the body's symmetry axis (+Y) along the launch direction
+function launchOrientation(params: LaunchParameters): THREE.Quaternion {
+  const direction = params.manualConfig
+    ? params.manualConfig.impulseVector.clone()
+    : params.profile.impulse(params.profile.duration * 0.5);
+  if (direction.lengthSq() === 0) {
+    return new THREE.Quaternion();
+  }
+  return new THREE.Quaternion().setFromUnitVectors(BODY_AXIS, direction.normalize());
+}
+
+function createFlatEarthShadow(
+  state: ProjectileState,
+  environment: EnvironmentState,
+  params: LaunchParameters,
+  propulsion?: Propulsion
+): FlatEarthShadow {
+  const twin: ProjectileState = {
+    ...state,
+    position: state.position.clone(),
+    velocity: state.velocity.clone(),
+    spin: state.spin.clone(),
+    rotation: state.rotation.clone(),
+    momentOfInertia: state.momentOfInertia.clone()
+  };
+  const flat: EnvironmentState = { ...environment, geophysics: undefined };
+  return {
+    state: twin,
+    environment: flat,
+    dynamics: new ProjectileDynamics(twin, flat, totalAcceleration, totalTorque, launchDrive(params, propulsion)),
+    stateVector: new Float64Array(STATE_SIZE),
+    integration: createIntegrationStats(),
+    landed: false
+  };
+}
+
+export interface SimulationOptions {
+  seed?: number; // Session seed; a fresh one is drawn when omitted
+  terrain?: Heightfield; // Ground surface; flat when omitted
+  obstacles?: ObstacleDefinition[]; // Static colliders placed on the terrain
+  surfaces?: SurfaceMapDefinition; // Ground materials; uniform grass when omitted
+  water?: WaterBody[]; // Ponds and basins cut into the terrain; none when omitted
+  bounds?: number; // Half-width of the square around the origin projectiles are retired on leaving; unbounded when omitted
+}
+
+function captureState(projectile: ProjectileInstance): EventState {
+  const state = projectile.state;
+  return {
+    position: state.position.clone(),
+    velocity: state.velocity.clone(),
+    spin: state.spin.clone(),
+    rotation: state.rotation.clone(),
+    mass: state.mass,
+    phase: projectile.phase
+  };
+}
+
+// Pure physics core: owns projectile state and telemetry but knows nothing about
+// rendering. Pair it with a SimulationRenderer to mirror the state into a scene.
 export class SimulationEngine {
-  private scene: THREE.Scene;
-  private palette: MaterialPalette;
   private projectiles: ProjectileInstance[] = [];
   private records: LaunchRecord[] = [];
   private idCounter = 0;
-  private turbulence: TurbulenceField;
-  private globalTime: number = 0;
-  private surfaceProps: SurfaceProperties = {
-    friction: 0.6, // Grass/dirt
-    restitution: 0.5
-  };
+  private accumulator = 0;
+  private time = 0; // Simulated seconds since the engine started
+  private paused = false;
+  private playbackRate = DEFAULT_PLAYBACK_RATE;
+  // History: checkpoints taken as the clock runs, the latest time reached, and
+  // after a seek, each live projectile's record lengths at the sought moment
+  private checkpoints: EngineCheckpoint[] = [];
+  private ticksSinceCheckpoint = 0;
+  private frontier = 0;
+  private marks = new Map<ProjectileInstance, number[]>();
+  private replaying = false; // Re-running ticks to reach a seek target; raises no events
+  private activeSnapshots: ProjectileSnapshot[] = [];
+  // Per tick: the projectiles stepped, where each started and its energy before
+  // the projectiles collided, refilled every tick rather than reallocated
+  private stepped: ProjectileInstance[] = [];
+  private starts: THREE.Vector3[] = [];
+  private energies: number[] = [];
+  private broadPhase = new SpatialHash();
+  readonly sessionSeed: number;
+  private terrain: Heightfield;
+  private obstacles: ObstacleCollider[] = [];
+  private surfaces: SurfaceMap;
+  private water: WaterBody[];
+  private bounds?: number;
+  // Launches, contacts, landings and retirements as they happen, for code that
+  // would otherwise poll the launch records
+  readonly events = new EventBus<SimulationEvents>();
 
-  constructor(scene: THREE.Scene, palette: MaterialPalette) {
-    this.scene = scene;
-    this.palette = palette;
-    this.turbulence = new TurbulenceField();
+  constructor(options: SimulationOptions = {}) {
+    this.sessionSeed = options.seed ?? createSessionSeed();
+    this.terrain = options.terrain ?? Heightfield.flat();
+    this.setObstacles(options.obstacles ?? []);
+    this.surfaces = options.surfaces ? new SurfaceMap(options.surfaces) : SurfaceMap.uniform(DEFAULT_SURFACE);
+    this.water = options.water ?? [];
+    this.bounds = options.bounds;
   }
 
-  getActiveProjectiles(): Array<{ id: string; position: THREE.Vector3; color: number }> {
-    return this.projectiles
-      .filter(p => p.active)
-      .map(p => ({ id: p.id, position: p.state.position.clone(), color: p.colorHex }));
+  setTerrain(terrain: Heightfield): void {
+    this.terrain = terrain;
   }
 
-  spawnPreview(projectileDef: any): THREE.Object3D {
-    const mesh = projectileDef.meshFactory(this.palette);
-    mesh.position.set(0, 1.5, 0); // Default spawn height
-    this.scene.add(mesh);
-    return mesh;
+  getTerrain(): Heightfield {
+    return this.terrain;
   }
 
-  launch(params: LaunchParameters): LaunchHandle {
-    const id = `launch-${this.idCounter++}`;
-    const mesh = params.projectile.meshFactory(this.palette);
-    const launchPos = params.profile.launchPosition || new THREE.Vector3(0, 1.2, 0);
-    mesh.position.copy(launchPos);
-    this.scene.add(mesh);
-
-    const positions = new Float32Array(MAX_TRAIL_POINTS * 3);
-    const trailGeometry = new THREE.BufferGeometry();
-    trailGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    const trailMaterial = new THREE.LineBasicMaterial({
-      color: params.tint.getHex(),
-      transparent: true,
-      opacity: 0.65
+  setObstacles(definitions: ObstacleDefinition[]): void {
+    this.obstacles = definitions.map(createObstacleCollider);
+  }
+
+  getObstacles(): ObstacleDefinition[] {
+    return this.obstacles.map((collider) => collider.definition);
+  }
+
+  // Refreshed in place on every call rather than allocated per frame, so
+  // copy anything that has to outlive the next one
+  getActiveProjectiles(): ProjectileSnapshot[] {
+    const snapshots = this.activeSnapshots;
+    snapshots.length = 0;
+    this.projectiles.forEach((p) => {
+      if (!p.active) return;
+      p.snapshot.position.copy(p.state.position);
+      p.snapshot.rotation.copy(p.state.rotation);
+      snapshots.push(p.snapshot);
     });
-    const trail = new THREE.Line(trailGeometry, trailMaterial);
-    trail.frustumCulled = false;
-    this.scene.add(trail);
+    return snapshots;
+  }
+
+  launch(params: LaunchParameters): LaunchRecord {
+    this.branch();
+    const launchIndex = this.idCounter++;
+    const id = `launch-${launchIndex}`;
+    // Every random draw for this launch flows from its seed, so the same
+    // parameters and seed reproduce the same samples
+    const seed = params.seed ?? deriveSeed(this.sessionSeed, launchIndex);
+    const integrator = getIntegrator(params.integrator ?? DEFAULT_INTEGRATOR);
+    const launchPos = params.profile.launchPosition || new THREE.Vector3(0, 1.2, 0);
 
     const state: ProjectileState = {
-      position: mesh.position.clone(),
+      position: launchPos.clone(),
       velocity: new THREE.Vector3(),
+      // Leaves the pad spinning at the profile's rate; the drive adds the
+      // spin-up over the contact window on top
       spin: params.profile.spinAxis.clone().multiplyScalar(params.profile.spinRate),
-      rotation: new THREE.Quaternion(), // Identity quaternion (no rotation initially)
+      rotation: launchOrientation(params),
       mass: params.projectile.massKg,
       area: params.projectile.referenceArea,
       dragCoefficient: params.projectile.dragCoefficient,
+      dragModel: params.projectile.dragModel ?? 'sphere',
+      aerodynamics: params.projectile.aerodynamics,
       spinDamping: params.projectile.spinDamping,
       restitution: params.projectile.restitution,
       momentOfInertia: params.projectile.momentOfInertia.clone(),
@@ -129,36 +615,72 @@ export class SimulationEngine {
       const r = params.manualConfig.applicationPoint;
       const torqueImpulse = new THREE.Vector3().crossVectors(r, params.manualConfig.impulseVector);
       
-      const deltaOmega = new THREE.Vector3(
-        torqueImpulse.x / state.momentOfInertia.x,
-        torqueImpulse.y / state.momentOfInertia.y,
-        torqueImpulse.z / state.momentOfInertia.z
-      );
-      state.spin.add(deltaOmega);
+      state.spin.add(applyInverseInertia(state, torqueImpulse, new THREE.Vector3()));
     }
 
     const envCopy: EnvironmentState = {
       gravity: params.environment.gravity,
-      airDensity: params.environment.airDensity,
-      windVector: params.environment.windVector.clone()
+      temperature: params.environment.temperature,
+      pressure: params.environment.pressure,
+      humidity: params.environment.humidity,
+      windVector: params.environment.windVector.clone(),
+      windProfile: params.environment.windProfile,
+      turbulence: params.environment.turbulence,
+      gusts: params.environment.gusts,
+      geophysics: params.environment.geophysics
     };
+    if (envCopy.geophysics) {
+      // Ground contact forces use the surface gravity at the launch latitude
+      envCopy.gravity = normalGravity(envCopy.geophysics.latitude);
+    }
 
+    const propulsion = params.projectile.motor
+      ? new Propulsion(params.projectile.motor, state.mass, state.momentOfInertia.clone())
+      : undefined;
     const samples: TelemetrySample[] = [];
+    const collisions: CollisionRecord[] = [];
+    const propulsionEvents: PropulsionEvent[] = [];
+    const bounces: BounceRecord[] = [];
+    const splashes: SplashEvent[] = [];
+    const integration = createIntegrationStats();
+    const drive = launchDrive(params, propulsion);
+    const energy: EnergySample[] = [];
 
     const instance: ProjectileInstance = {
       id,
-      mesh,
-      trail,
-      positions,
       state,
       environment: envCopy,
       params,
+      turbulence: new TurbulenceField(seed, envCopy.turbulence),
+      // Own stream so gust arrivals don't shift when the turbulence model changes
+      gusts: new GustScheduler(deriveSeed(seed, 0), envCopy.gusts),
+      integrator,
+      drive,
+      dynamics: new ProjectileDynamics(state, envCopy, totalAcceleration, totalTorque, drive),
+      stateVector: new Float64Array(STATE_SIZE),
+      integration,
       elapsed: 0,
       telemetryTimer: 0,
       samples,
+      ledger: new EnergyLedger(state, envCopy.gravity),
+      energy,
+      collisions,
+      collisionBody: { state, halfLength: params.projectile.capsuleHalfLength ?? 0 },
+      shadow: envCopy.geophysics ? createFlatEarthShadow(state, envCopy, params, propulsion) : undefined,
+      propulsion,
+      propulsionEvents,
+      bounces,
+      splashes,
+      origin: launchPos.clone(),
+      phase: 'flight',
       active: true,
       colorHex: params.tint.getHex(),
-      isGrounded: false
+      snapshot: { id, position: new THREE.Vector3(), rotation: new THREE.Quaternion(), color: params.tint.getHex() },
+      isGrounded: false,
+      impulseEnd: params.manualConfig ? 0 : params.profile.duration,
+      impulseEnded: false,
+      apexReached: false,
+      touchedDown: false
     };
     this.projectiles.push(instance);
 
@@ -167,74 +689,344 @@ export class SimulationEngine {
       color: `#${params.tint.getHexString()}`,
       profileLabel: params.profile.label,
       projectileLabel: params.projectile.label,
-      samples
+      sessionSeed: this.sessionSeed,
+      launchTime: this.time,
+      seed,
+      integrator: integrator.id,
+      integration,
+      samples,
+      energy,
+      collisions,
+      gusts: instance.gusts.timeline,
+      propulsion: propulsionEvents,
+      bounces,
+      splashes
     };
     this.records.push(record);
-    return { record, object: mesh };
+    // Seeking to any later moment finds the launch in a checkpoint
+    this.checkpoint(instance);
+    this.emit('launch', instance, { record });
+    if (params.manualConfig) {
+      // The impulse was delivered whole before the first step
+      instance.impulseEnded = true;
+      this.emit('impulseEnd', instance, {});
+    }
+    return record;
   }
 
-  update(dt: number): void {
-    // Speed up simulation by 1.5x
-    const speedMultiplier = 1.5;
-    const clamped = Math.min(dt * speedMultiplier, MAX_TIME_STEP);
-    
-    // Update turbulence field
-    this.turbulence.update(clamped);
-    this.globalTime += clamped;
-    
-    // Adaptive time stepping
-    let accumulator = clamped;
-    while (accumulator > 0) {
-      // Calculate optimal timestep based on projectile velocities
-      let minStep = MAX_TIME_STEP;
-      this.projectiles.forEach(p => {
-        if (p.active) {
-          const speed = p.state.velocity.length();
-          // Smaller steps for faster projectiles or near-ground collisions
-          const velStep = speed > 50 ? MIN_TIME_STEP : MIN_TIME_STEP * 2;
-          const heightStep = p.state.position.y < 2 * p.state.radius ? MIN_TIME_STEP : MAX_TIME_STEP;
-          minStep = Math.min(minStep, velStep, heightStep);
-        }
+  // Advance by a frame of wall-clock time at the playback rate, returning the
+  // simulated time that passed (s). Nothing passes while paused.
+  update(dt: number): number {
+    if (this.paused) return 0;
+    this.branch();
+    // Consume frame time in whole fixed ticks so integration never depends on frame rate
+    this.accumulator += Math.min(dt, MAX_FRAME_TIME) * this.playbackRate;
+    let advanced = 0;
+    while (this.accumulator >= SIMULATION_TICK) {
+      this.advance();
+      this.accumulator -= SIMULATION_TICK;
+      advanced += SIMULATION_TICK;
+    }
+    this.retireInactive();
+    return advanced;
+  }
+
+  // Advance whole ticks whatever the clock says, typically one at a time while
+  // paused. From a rewound moment this branches, like resuming does. Returns
+  // the simulated time that passed (s).
+  stepTicks(count: number = 1): number {
+    this.branch();
+    for (let i = 0; i < count; i++) {
+      this.advance();
+    }
+    this.retireInactive();
+    return count * SIMULATION_TICK;
+  }
+
+  // Move the whole engine to any moment still in its history, earlier or
+  // later, and pause there. Records keep their full history until the run
+  // resumes from the moment, which discards whatever came after it.
+  seek(time: number): void {
+    if (this.checkpoints.length === 0) return;
+    const target = THREE.MathUtils.clamp(time, this.checkpoints[0].time, this.frontier);
+    let index = this.checkpoints.length - 1;
+    while (index > 0 && this.checkpoints[index].time > target + TIME_EPSILON) {
+      index--;
+    }
+    const checkpoint = this.checkpoints[index];
+    this.paused = true;
+    this.accumulator = 0;
+    this.time = checkpoint.time;
+    this.projectiles = checkpoint.projectiles.map(restoreCheckpoint);
+    this.marks = new Map(checkpoint.projectiles.map((saved) => [saved.instance, saved.history]));
+
+    // Re-run the ticks from the checkpoint, which is deterministic, then drop
+    // the record entries that duplicated
+    const ticks = Math.round((target - checkpoint.time) / SIMULATION_TICK);
+    if (ticks > 0) {
+      const full = this.projectiles.map((p) => historyOf(p).map((entries) => entries.length));
+      this.replaying = true;
+      for (let i = 0; i < ticks; i++) {
+        this.step(SIMULATION_TICK);
+      }
+      this.replaying = false;
+      this.projectiles.forEach((projectile, i) => {
+        const history = historyOf(projectile);
+        const mark = this.marks.get(projectile)!;
+        this.marks.set(projectile, mark.map((length, j) => length + history[j].length - full[i][j]));
+        history.forEach((entries, j) => (entries.length = full[i][j]));
       });
-      
-      const step = Math.min(accumulator, minStep);
-      this.projectiles.forEach((projectile) => this.integrateProjectile(projectile, step));
-      accumulator -= step;
     }
+    this.ticksSinceCheckpoint = ticks;
+    // Retirements during the re-run were announced the first time round
     this.projectiles = this.projectiles.filter((p) => p.active);
+    if (!this.isRewound()) {
+      // Back at the latest moment, where the re-run stats match the records'
+      this.projectiles.forEach((projectile) => this.adoptIntegration(projectile));
+    }
+  }
+
+  // Earliest and latest moments seek can reach (s)
+  getHistoryRange(): { start: number; end: number } {
+    return { start: this.checkpoints[0]?.time ?? 0, end: this.frontier };
+  }
+
+  // Whether the clock sits before the latest moment reached, after a seek
+  isRewound(): boolean {
+    return this.time < this.frontier - TIME_EPSILON;
+  }
+
+  // Change the weather under the launches in flight, typically before resuming
+  // from a rewound moment. New launches take theirs from their parameters.
+  // Weather is all that can change under a launch already in flight; its
+  // profile, projectile and solver are fixed from the moment it leaves the pad.
+  setFlightWeather(weather: FlightWeather): void {
+    this.projectiles
+      .filter((p) => p.active)
+      .forEach((projectile) => {
+        [projectile.environment, projectile.shadow?.environment].forEach((environment) => {
+          if (!environment) return;
+          environment.temperature = weather.temperature;
+          environment.pressure = weather.pressure;
+          environment.humidity = weather.humidity;
+          environment.windVector = weather.windVector.clone();
+          environment.windProfile = weather.windProfile;
+        });
+      });
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Simulated seconds per wall-clock second: below 1 for slow motion
+  setPlaybackRate(rate: number): void {
+    if (!(rate > 0)) {
+      throw new Error(`Playback rate must be positive, got ${rate}`);
+    }
+    this.playbackRate = rate;
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  private advance(): void {
+    this.step(SIMULATION_TICK);
+    this.frontier = this.time;
+    if (++this.ticksSinceCheckpoint >= CHECKPOINT_TICKS) {
+      this.checkpoint();
+    }
+  }
+
+  private checkpoint(launched?: ProjectileInstance): void {
+    this.ticksSinceCheckpoint = 0;
+    // Launches made at the moment of the latest checkpoint join it, so a salvo
+    // doesn't copy everything in flight once per launch
+    const latest = this.checkpoints[this.checkpoints.length - 1];
+    if (launched && latest && Math.abs(latest.time - this.time) < TIME_EPSILON) {
+      latest.projectiles.push(captureCheckpoint(launched));
+      return;
+    }
+    this.checkpoints.push({
+      time: this.time,
+      projectiles: this.projectiles.filter((p) => p.active).map(captureCheckpoint)
+    });
+    if (this.checkpoints.length > MAX_CHECKPOINTS) {
+      this.checkpoints.shift();
+    }
+  }
+
+  // Running on from a rewound moment makes it the present: the records lose
+  // their later entries, and later launches and checkpoints are discarded
+  private branch(): void {
+    if (!this.isRewound()) return;
+    this.projectiles.forEach((projectile) => {
+      const mark = this.marks.get(projectile);
+      if (mark) {
+        historyOf(projectile).forEach((entries, j) => (entries.length = mark[j]));
+      }
+      const record = this.adoptIntegration(projectile);
+      if (record) {
+        record.summary = projectile.summary;
+        record.penetration = projectile.penetration;
+      }
+    });
+    this.records = this.records.filter((record) => record.launchTime <= this.time + TIME_EPSILON);
+    this.checkpoints = this.checkpoints.filter((checkpoint) => checkpoint.time <= this.time + TIME_EPSILON);
+    this.marks.clear();
+    this.frontier = this.time;
+  }
+
+  // The record follows the projectile's stats again after a restore
+  private adoptIntegration(projectile: ProjectileInstance): LaunchRecord | undefined {
+    const record = this.records.find((r) => r.id === projectile.id);
+    if (record) {
+      record.integration = projectile.integration;
+    }
+    return record;
+  }
+
+  private retireInactive(): void {
+    const retired = this.projectiles.filter((p) => !p.active);
+    this.projectiles = this.projectiles.filter((p) => p.active);
+    retired.forEach((projectile) => {
+      const record = this.records.find((r) => r.id === projectile.id);
+      if (record) {
+        this.emit('removal', projectile, { record });
+      }
+    });
+  }
+
+  // Advance every projectile by one tick. Substeps are chosen from each
+  // projectile's own state; contacts between projectiles are resolved once the
+  // whole tick has been integrated, so launches only interact by colliding.
+  step(tick: number): void {
+    this.time += tick;
+    const active = this.stepped;
+    const starts = this.starts;
+    const energies = this.energies;
+    active.length = 0;
+    this.projectiles.forEach((p) => {
+      if (!p.active) return;
+      if (starts.length === active.length) starts.push(new THREE.Vector3());
+      starts[active.length].copy(p.state.position);
+      active.push(p);
+    });
+    active.forEach((projectile) => {
+      const substep = this.substepFor(projectile);
+      const count = Math.max(1, Math.ceil(tick / substep - 1e-9));
+      for (let i = 0; i < count && projectile.active; i++) {
+        this.integrateProjectile(projectile, tick / count);
+      }
+    });
+    active.forEach((p, i) => (energies[i] = p.ledger.total(p.state)));
+    this.resolveProjectileCollisions(active, starts, tick);
+    active.forEach((p, i) => p.ledger.credit('collisions', p.ledger.total(p.state) - energies[i]));
+  }
+
+  hasActiveProjectiles(): boolean {
+    return this.projectiles.some((p) => p.active);
   }
 
   getLaunchRecords(): LaunchRecord[] {
     return this.records;
   }
 
-  setSurfaceType(type: 'grass' | 'concrete' | 'dirt' | 'ice'): void {
-    switch (type) {
-      case 'grass':
-        this.surfaceProps = { friction: 0.6, restitution: 0.5 };
-        break;
-      case 'concrete':
-        this.surfaceProps = { friction: 0.8, restitution: 0.7 };
-        break;
-      case 'dirt':
-        this.surfaceProps = { friction: 0.7, restitution: 0.4 };
-        break;
-      case 'ice':
-        this.surfaceProps = { friction: 0.1, restitution: 0.9 };
-        break;
-    }
-  }
-
-  private getGroundNormal(x: number, z: number): THREE.Vector3 {
-    // Perturb normal to simulate grass/uneven ground (Physics Bump Mapping)
-    // Use simple hash of position for determinism
-    const scale = 0.8; // Scale of bumps
-    const roughness = 0.15; // Magnitude of perturbation (increased for visibility)
-    
-    const nx = (Math.sin(x * scale) + Math.cos(z * scale * 1.3)) * roughness;
-    const nz = (Math.cos(x * scale * 1.1) + Math.sin(z * scale * 0.9)) * roughness;
-    
-    return new THREE.Vector3(nx, 1, nz).normalize();
+  setSurfaceMap(definition: SurfaceMapDefinition): void {
+    this.surfaces = new SurfaceMap(definition);
+  }
+
+  getSurfaceMap(): SurfaceMapDefinition {
+    return this.surfaces.definition;
+  }
+
+  setWaterBodies(bodies: WaterBody[]): void {
+    this.water = bodies;
+  }
+
+  getWaterBodies(): WaterBody[] {
+    return this.water;
+  }
+
+  setBounds(halfWidth: number | undefined): void {
+    this.bounds = halfWidth;
+  }
+
+  getBounds(): number | undefined {
+    return this.bounds;
+  }
+
+  private substepFor(projectile: ProjectileInstance): number {
+    const state = projectile.state;
+    const speed = state.velocity.length();
+    // Within one tick of travel of an obstacle, never move more than a radius per
+    // substep so thin panels can't be tunnelled through
+    const reach = state.radius + speed * SIMULATION_TICK;
+    if (this.obstacles.some((obstacle) => obstacle.contact(state.position, reach))) {
+      return Math.min(MIN_TIME_STEP, state.radius / Math.max(speed, 1e-6));
+    }
+    // Water drag is hundreds of times air drag: within a tick of the surface or
+    // below it, keep each substep well inside the drag's decay time
+    const water = waterAt(this.water, state.position.x, state.position.z);
+    if (water && state.position.y - reach <= water.level) {
+      const k = (0.5 * state.dragCoefficient * waterDensity(water) * state.area) / state.mass;
+      return Math.min(MIN_TIME_STEP, WATER_STEP_FRACTION / (k * Math.max(speed, 1e-6)));
+    }
+    // Adaptive solvers pick their own substeps by error control
+    if (projectile.integrator.adaptive) {
+      return SIMULATION_TICK;
+    }
+    // Smaller steps for faster projectiles or near-ground collisions
+    const velStep = speed > 50 ? MIN_TIME_STEP : MIN_TIME_STEP * 2;
+    const clearance = this.groundContact(state, projectile.environment).clearance;
+    const heightStep = clearance < state.radius ? MIN_TIME_STEP : MAX_TIME_STEP;
+    return Math.min(velStep, heightStep);
+  }
+
+  private groundContact(state: ProjectileState, environment: EnvironmentState): GroundContact {
+    const { x, y, z } = state.position;
+    // Under water the ground is the body's flat bed
+    const water = waterAt(this.water, x, z);
+    if (water) {
+      const clearance = y - (water.level - water.depth) - state.radius;
+      return { normal: new THREE.Vector3(0, 1, 0), clearance, material: water.bed ?? DEFAULT_WATER_BED };
+    }
+    const normal = this.terrain.normalAt(x, z);
+    const height = this.terrainHeightAt(x, z, environment);
+    // Distance to the tangent plane at the foot point, less the radius
+    const clearance = (y - height) * normal.y - state.radius;
+    const material = this.surfaces.materialAt(x - normal.x * state.radius, z - normal.z * state.radius);
+    return { normal, clearance, material };
+  }
+
+  // Height of the ground ground contacts find under (x, z): a water body's
+  // bed, or else the terrain
+  groundHeightAt(x: number, z: number, environment: EnvironmentState): number {
+    const water = waterAt(this.water, x, z);
+    return water ? water.level - water.depth : this.terrainHeightAt(x, z, environment);
+  }
+
+  // On a curved Earth the terrain falls away below the launch tangent plane
+  private terrainHeightAt(x: number, z: number, environment: EnvironmentState): number {
+    return this.terrain.heightAt(x, z) - (environment.geophysics ? curvatureDrop(x, z) : 0);
+  }
+
+  private settleOnGround(state: ProjectileState, contact: GroundContact): void {
+    state.position.addScaledVector(contact.normal, -contact.clearance);
+    contact.clearance = 0;
   }
 
   private integrateProjectile(projectile: ProjectileInstance, dt: number): void {
@@ -243,111 +1035,255 @@ export class SimulationEngine {
     projectile.elapsed += dt;
     projectile.telemetryTimer += dt;
 
-    // Only apply profile force if NOT manual config (manual is instantaneous impulse at t=0)
-    if (!projectile.params.manualConfig && projectile.elapsed <= projectile.params.profile.duration) {
-      const force = projectile.params.profile.impulse(projectile.elapsed);
-      if (force.lengthSq() > 0) {
-        const acceleration = force.multiplyScalar(1 / projectile.state.mass);
-        projectile.state.velocity.addScaledVector(acceleration, dt);
+    // Turbulence and gusts ride on the mean wind at the projectile's altitude;
+    // the forces add the profile's mean wind themselves at every stage
+    const environment = projectile.environment;
+    const position = projectile.state.position;
+    const altitude = curvedAltitude(environment.geophysics, position);
+    const meanWind = windAtAltitude(environment.windProfile, environment.windVector, altitude, meanWindAt);
+    const airspeed = projectile.state.velocity.distanceTo(meanWind);
+    environment.windPerturbation = projectile.turbulence
+      .sample(dt, position, meanWind, airspeed, environment.windPerturbation ?? new THREE.Vector3())
+      .add(projectile.gusts.sample(projectile.elapsed, meanWind, gust));
+    // Water the step starts over, and whether the body is still clear of it
+    const water = waterAt(this.water, position.x, position.z);
+    environment.water = water;
+    const aboveWater = water !== undefined && position.y - projectile.state.radius > water.level;
+
+    // Resting on the terrain: contact forces decide between sliding, rolling
+    // and coming to rest before the step is integrated
+    let contact = this.groundContact(projectile.state, environment);
+    projectile.isGrounded = contact.clearance <= GROUND_CONTACT_TOLERANCE;
+    projectile.phase = submergedFraction(water, position, projectile.state.radius) > 0 ? 'submerged' : 'flight';
+    if (projectile.isGrounded) {
+      this.touchDown(projectile, 'ground');
+      const vn = projectile.state.velocity.dot(contact.normal);
+      if (vn < -0.1) {
+        // Arrived within the contact tolerance still moving into the ground
+        this.account(projectile, 'collisions', () => this.handleGroundCollision(projectile, contact));
+      } else if (vn <= 0.1) {
+        projectile.phase = this.account(projectile, 'rolling', () =>
+          this.applyGroundContactForces(projectile, dt, contact)
+        );
       }
-      projectile.state.spin.addScaledVector(projectile.params.profile.spinAxis, projectile.params.profile.spinRate * dt);
     }
 
-    // Apply turbulent wind with gusts
-    const baseWind = projectile.environment.windVector.clone();
-    const turbulentWind = this.turbulence.getTurbulence(projectile.state.position, baseWind);
-    const gust = this.turbulence.addGust(projectile.state.position, this.globalTime);
-    projectile.environment.windVector = turbulentWind.add(gust);
+    if (!isSettled(projectile.phase)) {
+      // Integrate translation, attitude and angular velocity together (Equation 15
+      // extended with Euler's rigid-body equations) using the launch's solver
+      const ledger = projectile.ledger;
+      const startPower =
+        ledger.power ??
+        forcePowers(projectile.state, environment, projectile.drive, projectile.elapsed - dt, ledger.sparePower(null));
+      const climbing = projectile.state.velocity.y > 0;
+      const driven = !projectile.params.manualConfig && projectile.elapsed - dt < projectile.impulseEnd;
+      if (driven) {
+        startVelocity.copy(projectile.state.velocity);
+        startSpin.copy(projectile.state.spin);
+      }
+      packState(projectile.state, projectile.stateVector);
+      projectile.integrator.integrate(
+        projectile.dynamics,
+        projectile.elapsed - dt,
+        projectile.stateVector,
+        dt,
+        projectile.integration
+      );
+      unpackState(projectile.stateVector, projectile.state);
+      const pulse = driven ? profileWork(projectile.state, projectile.drive, projectile.elapsed - dt, dt) : undefined;
+      if (!projectile.impulseEnded && projectile.elapsed >= projectile.impulseEnd) {
+        projectile.impulseEnded = true;
+        this.emit('impulseEnd', projectile, {});
+      }
+      if (climbing && projectile.state.velocity.y <= 0 && !projectile.apexReached && !projectile.touchedDown) {
+        projectile.apexReached = true;
+        this.emit('apex', projectile, {});
+      }
+      if (projectile.propulsion) {
+        const propulsion = projectile.propulsion;
+        this.account(projectile, 'propellant', () => applyMassProperties(projectile.state, propulsion, projectile.elapsed));
+        this.recordPropulsionEvents(projectile, projectile.elapsed - dt);
+      }
+      ledger.accumulate(
+        startPower,
+        forcePowers(projectile.state, environment, projectile.drive, projectile.elapsed, ledger.sparePower(startPower)),
+        dt,
+        pulse
+      );
+      if (projectile.shadow) {
+        this.integrateShadow(projectile, dt);
+      }
 
-    // Check if object is on ground (within tolerance)
-    const groundDistance = projectile.state.position.y - projectile.state.radius;
-    projectile.isGrounded = groundDistance <= GROUND_CONTACT_TOLERANCE;
-    
-    // Apply ground contact forces if grounded
-    if (projectile.isGrounded && projectile.state.velocity.y <= 0.1) {
-      this.applyGroundContactForces(projectile, dt);
-    }
-    
-    // RK4 integration following state space formulation (Equation 15)
-    // Returns acceleration directly since forces already divided by mass
-    rk4Integrate(projectile.state, projectile.environment, dt, totalAcceleration);
-    
-    // Restore original wind after integration
-    projectile.environment.windVector = baseWind;
-    
-    // Update angular velocity with aerodynamic torque: dω/dt = τ/I
-    const torque = aerodynamicTorque(projectile.state, projectile.environment);
-    const angularAccel = new THREE.Vector3(
-      torque.x / projectile.state.momentOfInertia.x,
-      torque.y / projectile.state.momentOfInertia.y,
-      torque.z / projectile.state.momentOfInertia.z
-    );
-    projectile.state.spin.addScaledVector(angularAccel, dt);
-    
-    integrateSpin(projectile.state, dt);
-    integrateRotation(projectile.state, dt);
+      this.account(projectile, 'collisions', () => {
+        // Prevent sinking below ground
+        contact = this.groundContact(projectile.state, environment);
+        const touching = contact.clearance <= 0;
+        if (touching) {
+          this.settleOnGround(projectile.state, contact);
+        }
 
-    // Prevent sinking below ground
-    if (projectile.state.position.y < projectile.state.radius) {
-      projectile.state.position.y = projectile.state.radius;
-    }
+        // Impacts: bounce off, or settle into contact if barely moving into the ground
+        if (touching && projectile.state.velocity.dot(contact.normal) < -0.1) {
+          this.handleGroundCollision(projectile, contact);
+        }
+      });
 
-    // 3D collision detection and response (for impacts)
-    if (projectile.state.position.y <= projectile.state.radius && projectile.state.velocity.y < -0.1) {
-      this.handleGroundCollision(projectile);
-      if (Math.abs(projectile.state.velocity.y) < REST_THRESHOLD && projectile.state.velocity.length() < REST_THRESHOLD) {
-        projectile.active = false;
-        projectile.summary = this.buildSummary(projectile);
-      }
+      this.account(projectile, 'water', () => {
+        // Striking the water surface: skip back off it, or plunge in
+        if (aboveWater && projectile.state.position.y - projectile.state.radius <= water.level) {
+          this.handleWaterImpact(projectile, water);
+        }
+        if (projectile.phase === 'submerged' && this.floatsAtRest(projectile, water!)) {
+          projectile.state.velocity.set(0, 0, 0);
+          projectile.state.spin.set(0, 0, 0);
+          projectile.phase = 'rest';
+        }
+      });
     }
 
-    projectile.mesh.position.copy(projectile.state.position);
-    projectile.mesh.quaternion.copy(projectile.state.rotation);
-    this.updateTrail(projectile);
+    this.account(projectile, 'collisions', () => this.resolveObstacleContacts(projectile));
 
     if (projectile.telemetryTimer >= TELEMETRY_INTERVAL) {
       projectile.telemetryTimer = 0;
+      const drift = projectile.shadow && projectile.state.position.clone().sub(projectile.shadow.state.position);
       projectile.samples.push({
         time: projectile.elapsed,
-        altitude: projectile.state.position.y,
+        altitude: curvedAltitude(environment.geophysics, projectile.state.position),
         range: new THREE.Vector2(projectile.state.position.x, projectile.state.position.z).length(),
         speed: projectile.state.velocity.length(),
+        mach: this.machNumber(projectile),
+        angleOfAttack: THREE.MathUtils.radToDeg(angleOfAttack(projectile.state, projectile.environment)),
+        thrust: projectile.propulsion?.thrust(projectile.elapsed) ?? 0,
+        mass: projectile.state.mass,
+        phase: projectile.phase,
+        immersion: submergedFraction(water, projectile.state.position, projectile.state.radius),
         velocityX: projectile.state.velocity.x,
         velocityY: projectile.state.velocity.y,
         velocityZ: projectile.state.velocity.z,
         positionX: projectile.state.position.x,
-        positionZ: projectile.state.position.z
+        positionY: projectile.state.position.y,
+        positionZ: projectile.state.position.z,
+        driftX: drift?.x,
+        driftY: drift?.y,
+        driftZ: drift?.z
       });
+      projectile.energy.push(projectile.ledger.sample(projectile.elapsed, projectile.state));
+    }
+
+    let retirement: 'rest' | 'exit' | undefined;
+    if (isSettled(projectile.phase)) {
+      retirement = 'rest';
+    } else if (this.outOfBounds(projectile.state.position)) {
+      retirement = 'exit';
+    }
+    if (retirement) {
+      projectile.active = false;
+      projectile.summary = this.buildSummary(projectile);
     }
 
     if (!projectile.active) {
+      // Close the ledger on the final state so the last impact is booked
+      const last = projectile.energy[projectile.energy.length - 1];
+      if (!last || last.time !== projectile.elapsed) {
+        projectile.energy.push(projectile.ledger.sample(projectile.elapsed, projectile.state));
+      }
       const record = this.records.find((r) => r.id === projectile.id);
       if (record) {
         record.summary = projectile.summary;
+        record.penetration = projectile.penetration;
       }
-      this.scene.remove(projectile.mesh);
-      this.scene.remove(projectile.trail);
     }
+
+    // Announced once the record carries the summary
+    if (retirement) {
+      this.emit(retirement, projectile, {});
+    }
+  }
+
+  private outOfBounds(position: THREE.Vector3): boolean {
+    return this.bounds !== undefined && Math.max(Math.abs(position.x), Math.abs(position.z)) > this.bounds;
+  }
+
+  // The first touchdown once the launch has let go ends the carry; later ones
+  // are just contacts
+  private touchDown(projectile: ProjectileInstance, surface: 'ground' | 'water'): void {
+    if (projectile.touchedDown || projectile.elapsed < projectile.impulseEnd) return;
+    projectile.touchedDown = true;
+    this.emit('landing', projectile, { surface });
+  }
+
+  // Payloads are only built when someone is listening
+  private emit<K extends keyof SimulationEvents>(
+    type: K,
+    projectile: ProjectileInstance,
+    detail: Omit<SimulationEvents[K], keyof SimulationEvent>
+  ): void {
+    if (this.replaying || !this.events.has(type)) return;
+    const event = { id: projectile.id, time: projectile.elapsed, state: captureState(projectile), ...detail };
+    this.events.emit(type, event as SimulationEvents[K]);
+  }
+
+  // Apply a discrete change to a projectile's state and book the energy it
+  // added or removed under one ledger term
+  private account<T>(projectile: ProjectileInstance, term: WorkTerm, change: () => T): T {
+    const before = projectile.ledger.total(projectile.state);
+    const result = change();
+    projectile.ledger.credit(term, projectile.ledger.total(projectile.state) - before);
+    return result;
   }
 
-  private updateTrail(projectile: ProjectileInstance): void {
-    const positions = projectile.positions;
-    positions.copyWithin(3, 0, (MAX_TRAIL_POINTS - 1) * 3);
-    positions[0] = projectile.state.position.x;
-    positions[1] = projectile.state.position.y;
-    positions[2] = projectile.state.position.z;
-    const attr = projectile.trail.geometry.getAttribute('position');
-    attr.needsUpdate = true;
+  private machNumber(projectile: ProjectileInstance): number {
+    const { state, environment } = projectile;
+    const airspeed = airRelativeVelocity(state, environment).length();
+    return airspeed / sampleAtmosphere(environment, curvedAltitude(environment.geophysics, state.position)).speedOfSound;
   }
 
-  private applyGroundContactForces(projectile: ProjectileInstance, dt: number): void {
+  // Log ignition and burnout at their scheduled times when a step crosses them
+  private recordPropulsionEvents(projectile: ProjectileInstance, stepStart: number): void {
+    const propulsion = projectile.propulsion!;
+    const log = (time: number, kind: PropulsionEvent['kind']) =>
+      projectile.propulsionEvents.push({ time, kind, mass: propulsion.mass(time) });
+    const crossed = (time: number) => stepStart < time && time <= projectile.elapsed;
+    // A motor lit at launch ignites at t = 0, the start of the first step
+    if (crossed(propulsion.ignitionTime) || (stepStart === 0 && propulsion.ignitionTime === 0)) {
+      log(propulsion.ignitionTime, 'ignition');
+    }
+    if (crossed(propulsion.burnoutTime)) {
+      log(propulsion.burnoutTime, 'burnout');
+    }
+  }
+
+  // Advance the flat-earth twin through the same substep with the same solver
+  private integrateShadow(projectile: ProjectileInstance, dt: number): void {
+    const shadow = projectile.shadow!;
+    if (shadow.landed) return;
+    shadow.environment.windPerturbation = projectile.environment.windPerturbation;
+    packState(shadow.state, shadow.stateVector);
+    projectile.integrator.integrate(
+      shadow.dynamics,
+      projectile.elapsed - dt,
+      shadow.stateVector,
+      dt,
+      shadow.integration
+    );
+    unpackState(shadow.stateVector, shadow.state);
+    if (projectile.propulsion) {
+      applyMassProperties(shadow.state, projectile.propulsion, projectile.elapsed);
+    }
+    shadow.landed = this.groundContact(shadow.state, shadow.environment).clearance <= 0;
+  }
+
+  // Sustained contact with the terrain. Kinetic friction acts on the slipping
+  // contact point until it grips (slip-to-roll transition: for a sphere on level
+  // ground rolling starts once v = 5/7 of the sliding speed), static friction
+  // then keeps it rolling, and rolling resistance slows the roll until rest.
+  private applyGroundContactForces(projectile: ProjectileInstance, dt: number, contact: GroundContact): ContactPhase {
     const state = projectile.state;
+    const material = contact.material;
     
-    // Keep object exactly on ground (visual plane)
-    state.position.y = state.radius;
-    
-    // Get local ground normal
-    const normal = this.getGroundNormal(state.position.x, state.position.z);
+    // Keep object exactly on the terrain surface
+    this.settleOnGround(state, contact);
+    const normal = contact.normal;
 
     // Cancel velocity into the ground
     const vn = state.velocity.dot(normal);
@@ -355,36 +1291,19 @@ export class SimulationEngine {
       state.velocity.addScaledVector(normal, -vn);
     }
     
-    // Calculate contact point velocity including rotation
-    const contactOffset = normal.clone().multiplyScalar(-state.radius);
-    const rotationalVel = new THREE.Vector3().crossVectors(state.spin, contactOffset);
-    const contactVel = state.velocity.clone().add(rotationalVel);
-    
-    // Get tangential velocity (velocity along the surface)
-    const normalVel = normal.clone().multiplyScalar(contactVel.dot(normal));
-    const tangentialVel = contactVel.clone().sub(normalVel);
+    // Friction over this step's normal load: the full Coulomb limit while
+    // sliding, whatever grip is needed to hold the roll once rolling
+    const normalLoad = state.mass * projectile.environment.gravity * normal.y;
+    const gripping = applySlidingFriction(state, normal, material.friction, normalLoad * dt);
+
+    // Rolling resistance: F_rr = C_rr × N against the direction of travel, taken
+    // from velocity and spin alike so a rolling body keeps rolling
+    const tangentialVel = state.velocity.clone().addScaledVector(normal, -state.velocity.dot(normal));
     const speed = tangentialVel.length();
-    
     if (speed > 0.01) {
-      // Apply rolling friction: F_roll = μ_roll × N × v̂
-      // Normal force N approx mg (ignoring slope for simple rolling friction magnitude)
-      const normalForce = state.mass * projectile.environment.gravity;
-      const rollingFriction = tangentialVel.clone().normalize().multiplyScalar(
-        -ROLLING_FRICTION_COEFF * normalForce
-      );
-      
-      // Apply friction as acceleration: a = F/m
-      const frictionAccel = rollingFriction.multiplyScalar(1 / state.mass);
-      state.velocity.addScaledVector(frictionAccel, dt);
-      
-      // Apply torque from rolling friction: τ = r × F
-      const rollingTorque = new THREE.Vector3().crossVectors(contactOffset, rollingFriction);
-      const angularDecel = new THREE.Vector3(
-        rollingTorque.x / state.momentOfInertia.x,
-        rollingTorque.y / state.momentOfInertia.y,
-        rollingTorque.z / state.momentOfInertia.z
-      );
-      state.spin.addScaledVector(angularDecel, dt);
+      const loss = Math.min(speed, (material.rollingResistance * normalLoad * dt) / state.mass);
+      state.velocity.addScaledVector(tangentialVel, -loss / speed);
+      state.spin.multiplyScalar(1 - loss / speed);
     }
     
     // Apply damping to prevent perpetual rolling
@@ -393,111 +1312,307 @@ export class SimulationEngine {
       state.velocity.multiplyScalar(dampingFactor);
       state.spin.multiplyScalar(dampingFactor);
     }
+
+    // Rest once slow on ground that friction can hold: tan θ ≤ μ
+    const slope = Math.sqrt(Math.max(0, 1 - normal.y * normal.y)) / normal.y;
+    const spinSpeed = state.spin.length() * state.radius;
+    if (state.velocity.length() < REST_THRESHOLD && spinSpeed < REST_THRESHOLD && slope <= material.friction) {
+      state.velocity.set(0, 0, 0);
+      state.spin.set(0, 0, 0);
+      return 'rest';
+    }
+    return gripping ? 'rolling' : 'sliding';
   }
 
-  private handleGroundCollision(projectile: ProjectileInstance): void {
+  // Impulse response for an impact, logged as a bounce when it is more than the
+  // body settling into contact. Soft ground may swallow a dense body instead.
+  private handleGroundCollision(projectile: ProjectileInstance, contact: GroundContact): void {
+    this.touchDown(projectile, 'ground');
+    if (this.penetrateGround(projectile, contact)) {
+      this.emit('contact', projectile, { penetration: projectile.penetration });
+      return;
+    }
     const state = projectile.state;
+    const normal = contact.normal;
+    const incoming = state.velocity.clone();
+    const energyBefore = kineticEnergy(state);
     
-    // Get local ground normal (Physics Bump Mapping)
-    const normal = this.getGroundNormal(state.position.x, state.position.z);
+    // Restitution combines as for two projectiles: √(e_projectile · e_surface)
+    const restitution = Math.sqrt(state.restitution * contact.material.restitution);
+    applyContactImpulse(state, normal, restitution, contact.material.friction);
     
-    // Contact point is at the bottom of the object relative to the normal
-    const contactOffset = normal.clone().multiplyScalar(-state.radius);
-    
-    // Calculate velocity at contact point: v_contact = v_center + ω × r_contact
-    const rotationalVel = new THREE.Vector3().crossVectors(state.spin, contactOffset);
-    const contactVel = state.velocity.clone().add(rotationalVel);
-    
-    // Decompose contact velocity into normal and tangential components
-    const vn = contactVel.dot(normal);
-    
-    // Only process collision if moving into the ground
-    if (vn >= -0.01) {
-      state.position.y = state.radius;
+    // Place object at surface after collision response
+    this.settleOnGround(state, contact);
+
+    const normalSpeed = -incoming.dot(normal);
+    if (normalSpeed < MIN_BOUNCE_SPEED) {
       return;
     }
-    
-    const normalVel = normal.clone().multiplyScalar(vn);
-    const tangentialVel = contactVel.clone().sub(normalVel);
-    const tangentialSpeed = tangentialVel.length();
-    
-    // Velocity-dependent restitution (energy dissipation increases with impact speed)
-    const impactSpeed = Math.abs(vn);
-    const effectiveRestitution = state.restitution * Math.exp(-impactSpeed / 20.0);
-    
-    // Calculate normal impulse magnitude with velocity-dependent restitution
-    // Jn = -(1 + e) * vn / (1/m + (r × n)·(I⁻¹(r × n)))
-    const rCrossN = new THREE.Vector3().crossVectors(contactOffset, normal);
-    const angularEffect = new THREE.Vector3(
-      rCrossN.x / state.momentOfInertia.x,
-      rCrossN.y / state.momentOfInertia.y,
-      rCrossN.z / state.momentOfInertia.z
-    );
-    const rCrossAngular = new THREE.Vector3().crossVectors(contactOffset, angularEffect);
-    const denominator = 1 / state.mass + rCrossAngular.dot(normal);
-    const jn = -(1 + effectiveRestitution) * vn / denominator;
-    
-    // Calculate friction impulse (surface-dependent Coulomb friction)
-    const frictionCoeff = this.surfaceProps.friction;
-    const maxFriction = frictionCoeff * Math.abs(jn);
-    
-    let jt = 0;
-    if (tangentialSpeed > 0.01) {
-      // Calculate tangential impulse needed to stop sliding
-      const tangentDir = tangentialVel.clone().normalize();
-      const rCrossT = new THREE.Vector3().crossVectors(contactOffset, tangentDir);
-      const angularEffectT = new THREE.Vector3(
-        rCrossT.x / state.momentOfInertia.x,
-        rCrossT.y / state.momentOfInertia.y,
-        rCrossT.z / state.momentOfInertia.z
-      );
-      const rCrossAngularT = new THREE.Vector3().crossVectors(contactOffset, angularEffectT);
-      const denominatorT = 1 / state.mass + rCrossAngularT.dot(tangentDir);
-      jt = -tangentialSpeed / denominatorT;
-      
-      // Clamp friction impulse by Coulomb's law
-      jt = Math.max(-maxFriction, Math.min(maxFriction, jt));
+    const impactSpeed = incoming.length();
+    projectile.phase = 'bounce';
+    const bounce: BounceRecord = {
+      time: projectile.elapsed,
+      positionX: state.position.x,
+      positionY: state.position.y,
+      positionZ: state.position.z,
+      impactSpeed,
+      impactAngle: THREE.MathUtils.radToDeg(Math.asin(Math.min(1, normalSpeed / impactSpeed))),
+      reboundSpeed: state.velocity.length(),
+      energyLost: energyBefore - kineticEnergy(state),
+      material: contact.material.id
+    };
+    projectile.bounces.push(bounce);
+    this.emit('contact', projectile, { bounce });
+  }
+
+  // Poncelet penetration into soft ground along the impact line. A body that
+  // would sink less than a fraction of its radius bounces as usual; anything
+  // deeper buries itself at the computed depth and its flight ends there.
+  private penetrateGround(projectile: ProjectileInstance, contact: GroundContact): boolean {
+    const resistance = contact.material.penetration;
+    const state = projectile.state;
+    const impactSpeed = state.velocity.length();
+    const normalSpeed = -state.velocity.dot(contact.normal);
+    if (!resistance || normalSpeed <= 0) {
+      return false;
     }
-    
-    // Apply normal impulse
-    const normalImpulse = normal.clone().multiplyScalar(jn);
-    state.velocity.addScaledVector(normalImpulse, 1 / state.mass);
-    
-    const normalTorque = new THREE.Vector3().crossVectors(contactOffset, normalImpulse);
-    state.spin.add(new THREE.Vector3(
-      normalTorque.x / state.momentOfInertia.x,
-      normalTorque.y / state.momentOfInertia.y,
-      normalTorque.z / state.momentOfInertia.z
-    ));
-    
-    // Apply friction impulse
-    if (tangentialSpeed > 0.01) {
-      const tangentDir = tangentialVel.clone().normalize();
-      const frictionImpulse = tangentDir.multiplyScalar(jt);
-      state.velocity.addScaledVector(frictionImpulse, 1 / state.mass);
-      
-      const frictionTorque = new THREE.Vector3().crossVectors(contactOffset, frictionImpulse);
-      state.spin.add(new THREE.Vector3(
-        frictionTorque.x / state.momentOfInertia.x,
-        frictionTorque.y / state.momentOfInertia.y,
-        frictionTorque.z / state.momentOfInertia.z
-      ));
+    const result = poncelet(state.mass, state.area, impactSpeed, resistance);
+    const depth = (result.pathLength * normalSpeed) / impactSpeed;
+    if (depth < EMBED_DEPTH_FRACTION * state.radius) {
+      return false;
     }
-    
-    // Place object at surface after collision response
-    state.position.y = state.radius;
+
+    const entry = state.position.clone().addScaledVector(contact.normal, -state.radius);
+    state.position.addScaledVector(state.velocity, result.pathLength / impactSpeed);
+    state.velocity.set(0, 0, 0);
+    state.spin.set(0, 0, 0);
+    projectile.phase = 'embedded';
+    projectile.penetration = {
+      time: projectile.elapsed,
+      positionX: entry.x,
+      positionY: entry.y,
+      positionZ: entry.z,
+      embedX: state.position.x,
+      embedY: state.position.y,
+      embedZ: state.position.z,
+      impactSpeed,
+      impactAngle: THREE.MathUtils.radToDeg(Math.asin(Math.min(1, normalSpeed / impactSpeed))),
+      depth,
+      pathLength: result.pathLength,
+      duration: result.duration,
+      peakDeceleration: result.peakDeceleration,
+      meanDeceleration: result.meanDeceleration,
+      // Ejecta open the hole out to about one depth beyond the body itself
+      craterRadius: state.radius + depth,
+      material: contact.material.id
+    };
+    return true;
+  }
+
+  // A body crossing the surface from above skips when shallow, fast and spun
+  // enough (see skipsOffWater); otherwise it enters and the water forces take over
+  private handleWaterImpact(projectile: ProjectileInstance, water: WaterBody): void {
+    const state = projectile.state;
+    const impactSpeed = state.velocity.length();
+    if (state.velocity.y >= 0 || impactSpeed < MIN_SPLASH_SPEED) return;
+    this.touchDown(projectile, 'water');
+    const impactAngle = THREE.MathUtils.radToDeg(Math.asin(Math.min(1, -state.velocity.y / impactSpeed)));
+    const skip = skipsOffWater(state, water, projectile.environment.gravity);
+    if (skip) {
+      applySkip(state);
+      state.position.y = water.level + state.radius;
+      projectile.phase = 'bounce';
+    } else {
+      projectile.phase = 'submerged';
+    }
+    const splash: SplashEvent = {
+      time: projectile.elapsed,
+      kind: skip ? 'skip' : 'entry',
+      positionX: state.position.x,
+      positionY: water.level,
+      positionZ: state.position.z,
+      impactSpeed,
+      impactAngle,
+      body: water.id
+    };
+    projectile.splashes.push(splash);
+    this.emit('splash', projectile, { splash });
+  }
+
+  // A buoyant body is done once it has stopped bobbing at its waterline; from
+  // there it would only drift with the wind. Bodies denser than the water
+  // settle on the bed instead.
+  private floatsAtRest(projectile: ProjectileInstance, water: WaterBody): boolean {
+    const state = projectile.state;
+    const gravity = projectile.environment.gravity;
+    const wet = submergedFraction(water, state.position, state.radius);
+    const lift = (waterDensity(water) * displacedVolume(state) * wet * gravity) / state.mass;
+    return Math.abs(state.velocity.y) < REST_THRESHOLD && Math.abs(lift - gravity) < FLOAT_REST_ACCELERATION;
+  }
+
+  // Broad phase over each projectile's swept bounds for the tick, then a swept
+  // narrow phase along the straight paths through the tick, so fast salvos
+  // can't pass through each other between ticks
+  private resolveProjectileCollisions(active: ProjectileInstance[], starts: THREE.Vector3[], tick: number): void {
+    if (active.length < 2) return;
+    const extent = (p: ProjectileInstance) => p.state.radius + p.collisionBody.halfLength;
+    let cellSize = MIN_HASH_CELL;
+    active.forEach((p, i) => {
+      cellSize = Math.max(cellSize, 2 * extent(p) + starts[i].distanceTo(p.state.position));
+    });
+    const hash = this.broadPhase;
+    hash.reset(cellSize);
+    active.forEach((p, i) => {
+      if (!p.active) return;
+      const reach = extent(p);
+      boundsMin.copy(starts[i]).min(p.state.position).subScalar(reach);
+      boundsMax.copy(starts[i]).max(p.state.position).addScalar(reach);
+      hash.insert(i, boundsMin, boundsMax);
+    });
+
+    hash.forEachPair((i, j) => {
+      const a = active[i];
+      const b = active[j];
+      if (!a.active || !b.active) return;
+      endA.copy(a.state.position);
+      endB.copy(b.state.position);
+
+      const swept = this.sweptContact(a, b, starts[i], starts[j], extent(a) + extent(b));
+      const result = swept && resolveProjectileContact(a.state, b.state, swept.contact);
+      if (!swept || !result) {
+        a.state.position.copy(endA);
+        b.state.position.copy(endB);
+        return;
+      }
+      const { contact, fraction } = swept;
+
+      // Finish the tick on the new velocities, separated in inverse mass ratio
+      const remaining = (1 - fraction) * tick;
+      const share = (1 / a.state.mass) / (1 / a.state.mass + 1 / b.state.mass);
+      a.state.position
+        .addScaledVector(a.state.velocity, remaining)
+        .addScaledVector(contact.normal, -contact.penetration * share);
+      b.state.position
+        .addScaledVector(b.state.velocity, remaining)
+        .addScaledVector(contact.normal, contact.penetration * (1 - share));
+
+      const record = (self: ProjectileInstance, other: ProjectileInstance) =>
+        self.collisions.push({
+          time: self.elapsed - remaining,
+          otherId: other.id,
+          impulse: result.impulse,
+          relativeSpeed: result.relativeSpeed,
+          positionX: contact.point.x,
+          positionY: contact.point.y,
+          positionZ: contact.point.z
+        });
+      record(a, b);
+      record(b, a);
+    });
+  }
+
+  // Tests where the bounding spheres first touch along the straight paths to
+  // endA and endB, then the closest approach of the centres (capsules may only
+  // meet there). Both projectiles are left at the fraction of the tick where
+  // contact was found.
+  private sweptContact(
+    a: ProjectileInstance,
+    b: ProjectileInstance,
+    startA: THREE.Vector3,
+    startB: THREE.Vector3,
+    bound: number
+  ): { contact: ProjectileContact; fraction: number } | null {
+    const offset = sweepOffset.copy(startB).sub(startA);
+    const drift = sweepDrift.copy(endB).sub(startB).sub(sweepMotion.copy(endA).sub(startA));
+    const driftSq = drift.lengthSq();
+    // Aim slightly inside the bound so the narrow phase sees an actual overlap
+    const reach = bound - CONTACT_SLOP;
+    const c = offset.lengthSq() - reach * reach;
+    if (c <= 0 || driftSq < 1e-12) {
+      // Already within reach at the start of the tick: test where it ended
+      return this.contactAt(a, b, startA, startB, 1);
+    }
+    const half = offset.dot(drift);
+    const discriminant = half * half - driftSq * c;
+    if (discriminant < 0) return null;
+    const enter = (-half - Math.sqrt(discriminant)) / driftSq;
+    if (enter < 0 || enter > 1) return null;
+    return (
+      this.contactAt(a, b, startA, startB, enter) ??
+      this.contactAt(a, b, startA, startB, THREE.MathUtils.clamp(-half / driftSq, enter, 1))
+    );
+  }
+
+  // Both projectiles at the given fraction of their paths, and their contact there
+  private contactAt(
+    a: ProjectileInstance,
+    b: ProjectileInstance,
+    startA: THREE.Vector3,
+    startB: THREE.Vector3,
+    fraction: number
+  ): { contact: ProjectileContact; fraction: number } | null {
+    a.state.position.lerpVectors(startA, endA, fraction);
+    b.state.position.lerpVectors(startB, endB, fraction);
+    const contact = detectProjectileContact(a.collisionBody, b.collisionBody);
+    return contact ? { contact, fraction } : null;
+  }
+
+
+  // Static obstacles share the ground's impulse response and its rule for
+  // combining restitution; nets soak up extra energy
+  private resolveObstacleContacts(projectile: ProjectileInstance): void {
+    const state = projectile.state;
+    this.obstacles.forEach((obstacle) => {
+      const contact = obstacle.contact(state.position, state.radius);
+      if (!contact) return;
+      state.position.addScaledVector(contact.normal, contact.penetration);
+      if (state.velocity.dot(contact.normal) >= 0) return;
+      const { restitution, friction } = obstacle.definition;
+      const combined = Math.sqrt(state.restitution * restitution);
+      if (applyContactImpulse(state, contact.normal, combined, friction) && obstacle.damping > 0) {
+        state.velocity.multiplyScalar(1 - obstacle.damping);
+        state.spin.multiplyScalar(1 - obstacle.damping);
+      }
+    });
   }
 
   private buildSummary(projectile: ProjectileInstance): LaunchRecord['summary'] {
     const apex = projectile.samples.reduce((max, sample) => Math.max(max, sample.altitude), 0);
     const range = projectile.samples.reduce((max, sample) => Math.max(max, sample.range), 0);
     const flightTime = projectile.samples.length ? projectile.samples[projectile.samples.length - 1].time : projectile.elapsed;
-    const impactSpeed = projectile.state.velocity.length();
+    // Carry runs to the first bounce, splash or penetration, rollout from there
+    // to the resting point
+    const horizontal = (a: THREE.Vector3, b: THREE.Vector3) => Math.hypot(b.x - a.x, b.z - a.z);
+    const first = [projectile.bounces[0], projectile.splashes[0], projectile.penetration]
+      .filter((touchdown): touchdown is NonNullable<typeof touchdown> => touchdown !== undefined)
+      .sort((a, b) => a.time - b.time)[0];
+    const impactSpeed = first ? first.impactSpeed : projectile.state.velocity.length();
+    const landing = first ? new THREE.Vector3(first.positionX, first.positionY, first.positionZ) : projectile.state.position;
     return {
       maxHeight: apex,
       totalRange: range,
       flightTime,
-      impactSpeed
+      impactSpeed,
+      carry: horizontal(projectile.origin, landing),
+      rollout: horizontal(landing, projectile.state.position)
     };
   }
 }
+
+// Headless replay: integrate one launch in isolation until it comes to rest (or
+// maxDuration elapses) and return its record. With the record's seed, the same
+// parameters and the same world (terrain, obstacles) the samples match the
+// original run bit-for-bit, provided it never hit another projectile.
+export function simulateLaunch(
+  params: LaunchParameters,
+  options: SimulationOptions & { maxDuration?: number } = {}
+): LaunchRecord {
+  const engine = new SimulationEngine({ ...options, seed: params.seed ?? options.seed });
+  const maxDuration = options.maxDuration ?? DEFAULT_REPLAY_DURATION;
+  const record = engine.launch(params);
+  const ticks = Math.ceil(maxDuration / SIMULATION_TICK);
+  for (let i = 0; i < ticks && engine.hasActiveProjectiles(); i++) {
+    engine.step(SIMULATION_TICK);
+  }
+  return record;
+}
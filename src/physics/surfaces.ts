@@ -0,0 +1,104 @@
+// Ground materials painted over the terrain. Like obstacle layouts, a surface
+// map is plain data: a base material everywhere plus regions in the XZ plane,
+// later regions painted over earlier ones.
+import type { PenetrationResistance } from './penetration';
+
+export type Vec2Tuple = [number, number]; // (x, z) in metres
+
+export interface SurfaceMaterial {
+  id: string;
+  friction: number; // Coulomb coefficient for impacts and sliding
+  restitution: number; // Combined with the projectile's restitution (geometric mean)
+  rollingResistance: number; // Rolling resistance coefficient: resisting force over normal load
+  penetration?: PenetrationResistance; // Soft ground dense projectiles can bury into; rigid when omitted
+}
+
+// Short grass over topsoil, the engine's ground when no map is given
+export const DEFAULT_SURFACE: SurfaceMaterial = {
+  id: 'grass',
+  friction: 0.6,
+  restitution: 0.5,
+  rollingResistance: 0.02,
+  penetration: { strength: 1e6, inertia: 1700 }
+};
+
+// Outlines in the XZ plane, shared by painted materials and water bodies
+export interface RectShape {
+  shape: 'rect';
+  min: Vec2Tuple;
+  max: Vec2Tuple;
+}
+
+export interface CircleShape {
+  shape: 'circle';
+  center: Vec2Tuple;
+  radius: number;
+}
+
+export interface PolygonShape {
+  shape: 'polygon';
+  points: Vec2Tuple[]; // Vertices in order, implicitly closed
+}
+
+export type RegionShape = RectShape | CircleShape | PolygonShape;
+
+interface RegionBase {
+  material: SurfaceMaterial;
+}
+
+export interface RectRegion extends RectShape, RegionBase {}
+
+export interface CircleRegion extends CircleShape, RegionBase {}
+
+export interface PolygonRegion extends PolygonShape, RegionBase {}
+
+export type SurfaceRegion = RectRegion | CircleRegion | PolygonRegion;
+
+export interface SurfaceMapDefinition {
+  base: SurfaceMaterial;
+  regions: SurfaceRegion[];
+}
+
+// Even-odd ray crossing test
+function insidePolygon(points: Vec2Tuple[], x: number, z: number): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, zi] = points[i];
+    const [xj, zj] = points[j];
+    if (zi > z !== zj > z && x < ((xj - xi) * (z - zi)) / (zj - zi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function regionContains(region: RegionShape, x: number, z: number): boolean {
+  switch (region.shape) {
+    case 'rect':
+      return x >= region.min[0] && x <= region.max[0] && z >= region.min[1] && z <= region.max[1];
+    case 'circle': {
+      const dx = x - region.center[0];
+      const dz = z - region.center[1];
+      return dx * dx + dz * dz <= region.radius * region.radius;
+    }
+    case 'polygon':
+      return insidePolygon(region.points, x, z);
+  }
+}
+
+// Material lookup for contacts: the topmost region under the point, else the base
+export class SurfaceMap {
+  constructor(readonly definition: SurfaceMapDefinition) {}
+
+  static uniform(material: SurfaceMaterial): SurfaceMap {
+    return new SurfaceMap({ base: material, regions: [] });
+  }
+
+  materialAt(x: number, z: number): SurfaceMaterial {
+    const regions = this.definition.regions;
+    for (let i = regions.length - 1; i >= 0; i--) {
+      if (regionContains(regions[i], x, z)) return regions[i].material;
+    }
+    return this.definition.base;
+  }
+}
@@ -0,0 +1,183 @@
+import * as THREE from 'three';
+import { SeededRandom } from './random';
+
+// Minimal view of a decoded image; browser ImageData satisfies it
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  data: ArrayLike<number>; // RGBA bytes, only the red channel is read
+}
+
+export interface ProceduralTerrainOptions {
+  seed: number;
+  size?: number; // Edge length of the square patch (m)
+  resolution?: number; // Samples per edge
+  amplitude?: number; // Peak height of the first octave (m)
+  wavelength?: number; // Feature size of the first octave (m)
+  octaves?: number;
+  flatRadius?: number; // Launch area kept level around the origin (m)
+  edgeFalloff?: number; // Band at the border that blends back to y = 0 (m)
+}
+
+export interface ImageTerrainOptions {
+  size?: number;
+  minHeight?: number; // Height mapped to black (m)
+  maxHeight?: number; // Height mapped to white (m)
+}
+
+const DEFAULT_SIZE = 1600;
+const DEFAULT_RESOLUTION = 257;
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+// Square heightfield centred on the origin. Samples are stored row-major with
+// x = -size/2 + i·cell and z = -size/2 + j·cell; between samples the surface is
+// bilinear, and outside the patch it continues at the nearest edge height.
+// The same instance drives collision, contact normals, the ground mesh and the
+// minimap contours.
+export class Heightfield {
+  readonly size: number;
+  readonly resolution: number;
+  readonly cellSize: number;
+  readonly heights: Float32Array;
+  readonly minHeight: number;
+  readonly maxHeight: number;
+
+  constructor(size: number, resolution: number, heights: Float32Array) {
+    if (heights.length !== resolution * resolution) {
+      throw new Error(`Heightfield expects ${resolution * resolution} samples, got ${heights.length}`);
+    }
+    this.size = size;
+    this.resolution = resolution;
+    this.cellSize = size / (resolution - 1);
+    this.heights = heights;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < heights.length; i++) {
+      min = Math.min(min, heights[i]);
+      max = Math.max(max, heights[i]);
+    }
+    this.minHeight = min;
+    this.maxHeight = max;
+  }
+
+  // Two samples a side are enough for the physics; a mesh that has water
+  // basins cut into it needs a finer grid
+  static flat(size: number = DEFAULT_SIZE, resolution: number = 2): Heightfield {
+    return new Heightfield(size, resolution, new Float32Array(resolution * resolution));
+  }
+
+  // Fractal value noise, levelled around the launch pads and faded out at the border
+  static procedural(options: ProceduralTerrainOptions): Heightfield {
+    const size = options.size ?? DEFAULT_SIZE;
+    const resolution = options.resolution ?? DEFAULT_RESOLUTION;
+    const amplitude = options.amplitude ?? 14;
+    const wavelength = options.wavelength ?? 180;
+    const octaves = options.octaves ?? 4;
+    const flatRadius = options.flatRadius ?? 40;
+    const edgeFalloff = options.edgeFalloff ?? 120;
+    const random = new SeededRandom(options.seed);
+
+    const heights = new Float32Array(resolution * resolution);
+    const cell = size / (resolution - 1);
+    const half = size / 2;
+
+    let octaveAmplitude = amplitude;
+    let octaveWavelength = wavelength;
+    for (let octave = 0; octave < octaves; octave++) {
+      const lattice = Math.ceil(size / octaveWavelength) + 2;
+      const values = new Float32Array(lattice * lattice);
+      for (let i = 0; i < values.length; i++) {
+        values[i] = random.next() * 2 - 1;
+      }
+      for (let j = 0; j < resolution; j++) {
+        for (let i = 0; i < resolution; i++) {
+          const gx = (i * cell) / octaveWavelength;
+          const gz = (j * cell) / octaveWavelength;
+          const x0 = Math.floor(gx);
+          const z0 = Math.floor(gz);
+          const u = smoothstep(0, 1, gx - x0);
+          const v = smoothstep(0, 1, gz - z0);
+          const a = values[z0 * lattice + x0];
+          const b = values[z0 * lattice + x0 + 1];
+          const c = values[(z0 + 1) * lattice + x0];
+          const d = values[(z0 + 1) * lattice + x0 + 1];
+          const top = a + (b - a) * u;
+          const bottom = c + (d - c) * u;
+          heights[j * resolution + i] += (top + (bottom - top) * v) * octaveAmplitude;
+        }
+      }
+      octaveAmplitude *= 0.5;
+      octaveWavelength *= 0.5;
+    }
+
+    for (let j = 0; j < resolution; j++) {
+      for (let i = 0; i < resolution; i++) {
+        const x = -half + i * cell;
+        const z = -half + j * cell;
+        const centre = smoothstep(flatRadius, flatRadius * 2.5, Math.hypot(x, z));
+        const edgeDistance = half - Math.max(Math.abs(x), Math.abs(z));
+        const border = smoothstep(0, edgeFalloff, edgeDistance);
+        heights[j * resolution + i] *= centre * border;
+      }
+    }
+
+    return new Heightfield(size, resolution, heights);
+  }
+
+  // Decode a square-sampled grayscale image into heights; non-square images are
+  // resampled onto the image's shorter edge
+  static fromImage(image: GrayscaleImage, options: ImageTerrainOptions = {}): Heightfield {
+    const size = options.size ?? DEFAULT_SIZE;
+    const minHeight = options.minHeight ?? 0;
+    const maxHeight = options.maxHeight ?? 30;
+    const resolution = Math.max(2, Math.min(image.width, image.height));
+    const heights = new Float32Array(resolution * resolution);
+    for (let j = 0; j < resolution; j++) {
+      for (let i = 0; i < resolution; i++) {
+        const px = Math.round((i / (resolution - 1)) * (image.width - 1));
+        const py = Math.round((j / (resolution - 1)) * (image.height - 1));
+        const value = image.data[(py * image.width + px) * 4] / 255;
+        heights[j * resolution + i] = minHeight + (maxHeight - minHeight) * value;
+      }
+    }
+    return new Heightfield(size, resolution, heights);
+  }
+
+  private sample(i: number, j: number): number {
+    const n = this.resolution - 1;
+    const ci = Math.min(n, Math.max(0, i));
+    const cj = Math.min(n, Math.max(0, j));
+    return this.heights[cj * this.resolution + ci];
+  }
+
+  heightAt(x: number, z: number): number {
+    const half = this.size / 2;
+    const max = this.resolution - 1;
+    const gx = Math.min(max, Math.max(0, (x + half) / this.cellSize));
+    const gz = Math.min(max, Math.max(0, (z + half) / this.cellSize));
+    const i = Math.min(max - 1, Math.floor(gx));
+    const j = Math.min(max - 1, Math.floor(gz));
+    const u = gx - i;
+    const v = gz - j;
+    const a = this.sample(i, j);
+    const b = this.sample(i + 1, j);
+    const c = this.sample(i, j + 1);
+    const d = this.sample(i + 1, j + 1);
+    const top = a + (b - a) * u;
+    const bottom = c + (d - c) * u;
+    return top + (bottom - top) * v;
+  }
+
+  // Surface normal from central differences over half a cell, which smooths
+  // the creases between bilinear patches
+  normalAt(x: number, z: number, out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const eps = this.cellSize * 0.5;
+    const dhdx = (this.heightAt(x + eps, z) - this.heightAt(x - eps, z)) / (2 * eps);
+    const dhdz = (this.heightAt(x, z + eps) - this.heightAt(x, z - eps)) / (2 * eps);
+    return out.set(-dhdx, 1, -dhdz).normalize();
+  }
+}
@@ -1,24 +1,39 @@
 import * as THREE from 'three';
 import { TURBULENCE_INTENSITY, TURBULENCE_SCALE } from './constants';
+import { SeededRandom } from './random';
 
-// Simple 3D Perlin-like noise for wind turbulence
-class SimplexNoise {
-  private seed: number;
+// Odd multipliers spreading each lattice axis over the hash's 32 bits
+const PRIME_X = 0x27d4eb2d;
+const PRIME_Y = 0x165667b1;
+const PRIME_Z = 0x9e3779b1;
+const PRIME_T = 0x85ebca77;
+const HASH_RANGE = 4294967296; // 2³²
 
-  constructor(seed: number = Math.random()) {
-    this.seed = seed;
-  }
+// Simple 3D Perlin-like noise for wind turbulence, one independent field per
+// wind component. The three share the lattice cell and interpolation weights
+// at a point and differ only in their corner hashes.
+class SimplexNoise {
+  private seeds: Int32Array;
+  // Scrambled lattice coordinates of a cell's 16 corners, and one field's values there
+  private lattice = new Int32Array(16);
+  private values = new Float64Array(16);
 
-  // Hash function for pseudo-random values
-  private hash(x: number, y: number, z: number, t: number): number {
-    let h = this.seed;
-    h = Math.sin(h + x * 374761393 + y * 668265263 + z * 1274126177 + t * 1138340171) * 43758.5453;
-    return h - Math.floor(h);
+  constructor(seedX: number, seedY: number, seedZ: number) {
+    // Seeds arrive as fractions in [0, 1); the hash mixes 32-bit integers
+    this.seeds = Int32Array.from([seedX, seedY, seedZ], (seed) => Math.floor(seed * HASH_RANGE) | 0);
   }
 
-  // Interpolation function
-  private lerp(a: number, b: number, t: number): number {
-    return a + (b - a) * t;
+  // Hash of a seeded lattice point to [0, 1). Integer multiplies and shifts
+  // (MurmurHash3's finalizer) rather than a sine of a large argument, since
+  // every sample hashes 48 corners.
+  private hash(seed: number, point: number): number {
+    let h = (seed + point) | 0;
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return (h >>> 0) / HASH_RANGE;
   }
 
   // Smooth step function
@@ -26,136 +41,244 @@ class SimplexNoise {
     return t * t * (3 - 2 * t);
   }
 
-  // 4D noise (including time)
-  noise4D(x: number, y: number, z: number, t: number): number {
+  // 4D noise (including time) of each field, in [-1, 1], scaled by weight and
+  // added to out
+  addNoise4D(x: number, y: number, z: number, t: number, weight: number, out: THREE.Vector3): THREE.Vector3 {
     const xi = Math.floor(x);
     const yi = Math.floor(y);
     const zi = Math.floor(z);
     const ti = Math.floor(t);
 
-    const xf = x - xi;
-    const yf = y - yi;
-    const zf = z - zi;
-    const tf = t - ti;
-
-    const u = this.smoothstep(xf);
-    const v = this.smoothstep(yf);
-    const w = this.smoothstep(zf);
-    const s = this.smoothstep(tf);
-
-    // Sample 16 corners of 4D hypercube
-    const n0000 = this.hash(xi, yi, zi, ti);
-    const n1000 = this.hash(xi + 1, yi, zi, ti);
-    const n0100 = this.hash(xi, yi + 1, zi, ti);
-    const n1100 = this.hash(xi + 1, yi + 1, zi, ti);
-    const n0010 = this.hash(xi, yi, zi + 1, ti);
-    const n1010 = this.hash(xi + 1, yi, zi + 1, ti);
-    const n0110 = this.hash(xi, yi + 1, zi + 1, ti);
-    const n1110 = this.hash(xi + 1, yi + 1, zi + 1, ti);
-
-    const n0001 = this.hash(xi, yi, zi, ti + 1);
-    const n1001 = this.hash(xi + 1, yi, zi, ti + 1);
-    const n0101 = this.hash(xi, yi + 1, zi, ti + 1);
-    const n1101 = this.hash(xi + 1, yi + 1, zi, ti + 1);
-    const n0011 = this.hash(xi, yi, zi + 1, ti + 1);
-    const n1011 = this.hash(xi + 1, yi, zi + 1, ti + 1);
-    const n0111 = this.hash(xi, yi + 1, zi + 1, ti + 1);
-    const n1111 = this.hash(xi + 1, yi + 1, zi + 1, ti + 1);
-
-    // Interpolate
-    const x00_0 = this.lerp(n0000, n1000, u);
-    const x10_0 = this.lerp(n0100, n1100, u);
-    const x01_0 = this.lerp(n0010, n1010, u);
-    const x11_0 = this.lerp(n0110, n1110, u);
-
-    const x00_1 = this.lerp(n0001, n1001, u);
-    const x10_1 = this.lerp(n0101, n1101, u);
-    const x01_1 = this.lerp(n0011, n1011, u);
-    const x11_1 = this.lerp(n0111, n1111, u);
-
-    const y0_0 = this.lerp(x00_0, x10_0, v);
-    const y1_0 = this.lerp(x01_0, x11_0, v);
-    const y0_1 = this.lerp(x00_1, x10_1, v);
-    const y1_1 = this.lerp(x01_1, x11_1, v);
-
-    const z_0 = this.lerp(y0_0, y1_0, w);
-    const z_1 = this.lerp(y0_1, y1_1, w);
-
-    return this.lerp(z_0, z_1, s) * 2 - 1; // Normalize to [-1, 1]
+    const u = this.smoothstep(x - xi);
+    const v = this.smoothstep(y - yi);
+    const w = this.smoothstep(z - zi);
+    const s = this.smoothstep(t - ti);
+
+    // Corner i sits at (xi, yi, zi, ti) + (bit 0, bit 1, bit 2, bit 3) of i
+    const lattice = this.lattice;
+    const x0 = Math.imul(xi, PRIME_X);
+    const x1 = Math.imul(xi + 1, PRIME_X);
+    const y0 = Math.imul(yi, PRIME_Y);
+    const y1 = Math.imul(yi + 1, PRIME_Y);
+    const z0 = Math.imul(zi, PRIME_Z);
+    const z1 = Math.imul(zi + 1, PRIME_Z);
+    const t0 = Math.imul(ti, PRIME_T);
+    const t1 = Math.imul(ti + 1, PRIME_T);
+    for (let i = 0; i < 16; i++) {
+      lattice[i] = (i & 1 ? x1 : x0) + (i & 2 ? y1 : y0) + (i & 4 ? z1 : z0) + (i & 8 ? t1 : t0);
+    }
+
+    return out.set(
+      out.x + this.field(this.seeds[0], u, v, w, s) * weight,
+      out.y + this.field(this.seeds[1], u, v, w, s) * weight,
+      out.z + this.field(this.seeds[2], u, v, w, s) * weight
+    );
+  }
+
+  // Interpolate one field across the cell, halving the corners an axis at a time
+  private field(seed: number, u: number, v: number, w: number, s: number): number {
+    const values = this.values;
+    for (let i = 0; i < 16; i++) values[i] = this.hash(seed, this.lattice[i]);
+    this.halve(8, u);
+    this.halve(4, v);
+    this.halve(2, w);
+    this.halve(1, s);
+    return values[0] * 2 - 1; // Normalize to [-1, 1]
+  }
+
+  // Lerp neighbouring pairs of the first 2·count values into the first count
+  private halve(count: number, f: number): void {
+    const values = this.values;
+    for (let i = 0; i < count; i++) {
+      values[i] = values[2 * i] + (values[2 * i + 1] - values[2 * i]) * f;
+    }
   }
 }
 
+export type TurbulenceModel = 'fractal' | 'dryden' | 'vonKarman';
+
+export interface TurbulenceSettings {
+  model: TurbulenceModel;
+  intensity: number; // Horizontal RMS fluctuation over the local mean wind speed (σ/U)
+  lengthScale: number; // Horizontal length scale (m); the noise feature size for 'fractal'
+  verticalLengthScale: number; // Vertical length scale (m)
+}
+
+export const DEFAULT_TURBULENCE: TurbulenceSettings = {
+  model: 'fractal',
+  intensity: TURBULENCE_INTENSITY,
+  lengthScale: TURBULENCE_SCALE,
+  verticalLengthScale: TURBULENCE_SCALE
+};
+
+const VERTICAL_INTENSITY_RATIO = 0.5; // σ_w / σ_u, less vertical turbulence near the ground
+const MIN_AIRSPEED = 1; // Floor on the frozen-turbulence advection speed (m/s)
+const FILTER_RESOLUTION = 0.05; // Filter substep as a fraction of L/V
+const MAX_FILTER_SUBSTEPS = 64;
+
+const along = new THREE.Vector3();
+const across = new THREE.Vector3();
+
+// Rational spectral shaping filters in the normalized variable τs, τ = L/V
+// (Taylor's frozen turbulence: the body flies through a fixed field at its
+// airspeed). Coefficients are in ascending powers; gainFactor c sets the
+// gain σ·√(cL/πV) so unit-intensity white noise yields an RMS of σ.
+interface SpectralForm {
+  numerator: number[];
+  denominator: number[];
+  gainFactor: number;
+}
+
+const SPECTRA: Record<Exclude<TurbulenceModel, 'fractal'>, { longitudinal: SpectralForm; transverse: SpectralForm }> = {
+  // MIL-F-8785C Dryden forms
+  dryden: {
+    longitudinal: { numerator: [1], denominator: [1, 1], gainFactor: 2 },
+    transverse: { numerator: [1, Math.sqrt(3)], denominator: [1, 2, 1], gainFactor: 1 }
+  },
+  // Rational approximations of the von Kármán spectra (MIL-HDBK-1797)
+  vonKarman: {
+    longitudinal: { numerator: [1, 0.25], denominator: [1, 1.357, 0.1987], gainFactor: 2 },
+    transverse: { numerator: [1, 2.7478, 0.3398], denominator: [1, 2.9958, 1.9754, 0.1539], gainFactor: 1 }
+  }
+};
+
+// Continuous filter in controllable canonical form, driven by white noise and
+// advanced with explicit substeps short enough for its fastest pole
+class ShapingFilter {
+  private state: Float64Array;
+  private derivative: Float64Array;
+
+  constructor(private form: SpectralForm) {
+    this.state = new Float64Array(form.denominator.length - 1);
+    this.derivative = new Float64Array(this.state.length);
+  }
+
+  step(dt: number, lengthScale: number, airspeed: number, sigma: number, random: SeededRandom): number {
+    const { numerator, denominator, gainFactor } = this.form;
+    const order = this.state.length;
+    const tau = lengthScale / airspeed;
+    const lead = denominator[order] * Math.pow(tau, order);
+    const count = Math.min(MAX_FILTER_SUBSTEPS, Math.max(1, Math.ceil(dt / (FILTER_RESOLUTION * tau))));
+    const h = dt / count;
+    const x = this.state;
+    const dx = this.derivative;
+
+    for (let n = 0; n < count; n++) {
+      // Discrete white noise with intensity π: variance π/h per sample
+      const noise = random.gaussian() * Math.sqrt(Math.PI / h);
+      let feedback = 0;
+      for (let k = 0; k < order; k++) {
+        feedback += ((denominator[k] * Math.pow(tau, k)) / lead) * x[k];
+      }
+      for (let k = 0; k < order - 1; k++) dx[k] = x[k + 1];
+      dx[order - 1] = noise - feedback;
+      for (let k = 0; k < order; k++) x[k] += dx[k] * h;
+    }
+
+    let output = 0;
+    for (let k = 0; k < numerator.length; k++) {
+      output += ((numerator[k] * Math.pow(tau, k)) / lead) * x[k];
+    }
+    return sigma * Math.sqrt((gainFactor * lengthScale) / (Math.PI * airspeed)) * output;
+  }
+
+  snapshot(): Float64Array {
+    return this.state.slice();
+  }
+
+  restore(state: Float64Array): void {
+    this.state.set(state);
+  }
+}
+
+export interface TurbulenceSnapshot {
+  time: number;
+  random: number;
+  filters: Float64Array[] | null;
+}
+
 export class TurbulenceField {
-  private noiseX: SimplexNoise;
-  private noiseY: SimplexNoise;
-  private noiseZ: SimplexNoise;
+  private noise: SimplexNoise;
   private time: number = 0;
+  private random: SeededRandom;
+  private filters: [ShapingFilter, ShapingFilter, ShapingFilter] | null = null;
+
+  constructor(seed: number, private settings: TurbulenceSettings = DEFAULT_TURBULENCE) {
+    this.random = new SeededRandom(seed);
+    this.noise = new SimplexNoise(this.random.next(), this.random.next(), this.random.next());
+    if (settings.model !== 'fractal') {
+      const spectrum = SPECTRA[settings.model];
+      this.filters = [
+        new ShapingFilter(spectrum.longitudinal),
+        new ShapingFilter(spectrum.transverse),
+        new ShapingFilter(spectrum.transverse)
+      ];
+    }
+  }
 
-  constructor() {
-    this.noiseX = new SimplexNoise(Math.random());
-    this.noiseY = new SimplexNoise(Math.random());
-    this.noiseZ = new SimplexNoise(Math.random());
+  // Advance by dt and return the velocity fluctuation at position. Intensity
+  // scales with the local mean wind; the spectral models also need the body's
+  // airspeed, which sets how fast it samples the frozen field.
+  sample(
+    dt: number,
+    position: THREE.Vector3,
+    meanWind: THREE.Vector3,
+    airspeed: number,
+    out: THREE.Vector3 = new THREE.Vector3()
+  ): THREE.Vector3 {
+    const sigma = meanWind.length() * this.settings.intensity;
+    if (!this.filters) {
+      this.time += dt * 0.5; // Slow down time evolution
+      return this.fractal(position, sigma, out);
+    }
+
+    const speed = Math.max(airspeed, MIN_AIRSPEED);
+    const { lengthScale, verticalLengthScale } = this.settings;
+    const [longitudinal, lateral, vertical] = this.filters;
+    const u = longitudinal.step(dt, lengthScale, speed, sigma, this.random);
+    const v = lateral.step(dt, lengthScale, speed, sigma, this.random);
+    const w = vertical.step(dt, verticalLengthScale, speed, sigma * VERTICAL_INTENSITY_RATIO, this.random);
+
+    // u runs along the horizontal mean wind, v across it, w vertical
+    along.set(meanWind.x, 0, meanWind.z);
+    if (along.lengthSq() < 1e-12) along.set(1, 0, 0);
+    along.normalize();
+    across.set(-along.z, 0, along.x);
+    return out.copy(along).multiplyScalar(u).addScaledVector(across, v).add(across.set(0, w, 0));
   }
 
-  update(dt: number): void {
-    this.time += dt * 0.5; // Slow down time evolution
+  snapshot(): TurbulenceSnapshot {
+    return {
+      time: this.time,
+      random: this.random.snapshot(),
+      filters: this.filters?.map((filter) => filter.snapshot()) ?? null
+    };
   }
 
-  // Get turbulent wind velocity at position
-  getTurbulence(position: THREE.Vector3, baseWind: THREE.Vector3): THREE.Vector3 {
-    const scale = TURBULENCE_SCALE;
+  restore(snapshot: TurbulenceSnapshot): void {
+    this.time = snapshot.time;
+    this.random.restore(snapshot.random);
+    this.filters?.forEach((filter, i) => filter.restore(snapshot.filters![i]));
+  }
+
+  // Fractal value noise sampled in space and slowly evolving in time
+  private fractal(position: THREE.Vector3, sigma: number, out: THREE.Vector3): THREE.Vector3 {
+    const scale = this.settings.lengthScale;
     const x = position.x / scale;
     const y = position.y / scale;
     const z = position.z / scale;
     const t = this.time;
 
     // Sample noise at multiple frequencies (fractal noise)
-    const turbX = 
-      this.noiseX.noise4D(x, y, z, t) * 1.0 +
-      this.noiseX.noise4D(x * 2, y * 2, z * 2, t * 2) * 0.5 +
-      this.noiseX.noise4D(x * 4, y * 4, z * 4, t * 4) * 0.25;
-
-    const turbY = 
-      this.noiseY.noise4D(x, y, z, t) * 1.0 +
-      this.noiseY.noise4D(x * 2, y * 2, z * 2, t * 2) * 0.5 +
-      this.noiseY.noise4D(x * 4, y * 4, z * 4, t * 4) * 0.25;
-
-    const turbZ = 
-      this.noiseZ.noise4D(x, y, z, t) * 1.0 +
-      this.noiseZ.noise4D(x * 2, y * 2, z * 2, t * 2) * 0.5 +
-      this.noiseZ.noise4D(x * 4, y * 4, z * 4, t * 4) * 0.25;
-
-    // Add ground layer effect (wind weaker near surface)
-    const groundEffect = Math.min(1.0, position.y / 10.0);
-
-    // Scale by base wind speed and turbulence intensity
-    const baseSpeed = baseWind.length();
-    const turbulence = new THREE.Vector3(
-      turbX * baseSpeed * TURBULENCE_INTENSITY,
-      turbY * baseSpeed * TURBULENCE_INTENSITY * 0.5, // Less vertical turbulence
-      turbZ * baseSpeed * TURBULENCE_INTENSITY
-    );
+    const turbulence = out.set(0, 0, 0);
+    this.noise.addNoise4D(x, y, z, t, 1.0, turbulence);
+    this.noise.addNoise4D(x * 2, y * 2, z * 2, t * 2, 0.5, turbulence);
+    this.noise.addNoise4D(x * 4, y * 4, z * 4, t * 4, 0.25, turbulence);
 
-    return baseWind.clone().multiplyScalar(groundEffect).add(turbulence);
-  }
-
-  // Add gust effect (sudden wind increase)
-  addGust(position: THREE.Vector3, time: number): THREE.Vector3 {
-    // Periodic gusts every ~20 seconds
-    const gustPeriod = 20.0;
-    const gustPhase = (time % gustPeriod) / gustPeriod;
-    
-    // Gaussian-like gust profile
-    const gustStrength = Math.exp(-Math.pow((gustPhase - 0.5) * 4, 2));
-    
-    // Gust direction varies with position
-    const gustAngle = Math.sin(position.x * 0.1 + time * 0.3) * Math.PI;
-    const gustDir = new THREE.Vector3(
-      Math.cos(gustAngle),
-      0,
-      Math.sin(gustAngle)
+    return turbulence.set(
+      turbulence.x * sigma,
+      turbulence.y * sigma * VERTICAL_INTENSITY_RATIO,
+      turbulence.z * sigma
     );
-    
-    return gustDir.multiplyScalar(gustStrength * 5.0); // Up to 5 m/s gust
   }
 }
@@ -1,4 +1,22 @@
 import * as THREE from 'three';
+import type { AtmosphericConditions } from './atmosphere';
+import type { DragModel } from './dragTables';
+import type { GeophysicalSettings } from './geophysics';
+import type { GustEvent, GustSettings } from './gusts';
+import type { RocketMotor } from './propulsion';
+import type { TurbulenceSettings } from './turbulence';
+import type { WaterBody } from './water';
+import type { WindProfile } from './windProfile';
+
+// Rigid-body aerodynamic derivatives for slender projectiles, referenced to
+// the projectile's reference area and its diameter (2·radius). Axial force uses
+// the projectile's drag coefficient and drag model.
+export interface AerodynamicCoefficients {
+  normalForceSlope: number; // CNα: normal force per radian of incidence
+  pitchMomentSlope: number; // Cmα about the centre of mass; negative when the centre of pressure is aft (stable)
+  pitchDamping: number; // Cmq + Cmα̇, opposes transverse rotation (negative)
+  rollDamping: number; // Clp, opposes spin about the symmetry axis (negative)
+}
 
 export interface ProjectileState {
   position: THREE.Vector3;
@@ -8,9 +26,11 @@ export interface ProjectileState {
   mass: number;
   area: number;
   dragCoefficient: number;
+  dragModel: DragModel;
+  aerodynamics?: AerodynamicCoefficients; // Orientation-dependent model; treated as a sphere when absent
   spinDamping: number;
   restitution: number;
-  momentOfInertia: THREE.Vector3; // Ix, Iy, Iz for principal axes
+  momentOfInertia: THREE.Vector3; // Ix, Iy, Iz about the body's principal axes (+Y is the symmetry axis)
   radius: number; // Characteristic radius for torque calculations
 }
 
@@ -20,11 +40,15 @@ export interface ProjectileDefinition {
   description: string;
   massKg: number;
   referenceArea: number;
-  dragCoefficient: number;
+  dragCoefficient: number; // Low-speed (incompressible) drag coefficient
+  dragModel?: DragModel; // Standard drag function giving the Mach dependence; 'sphere' when omitted
+  aerodynamics?: AerodynamicCoefficients; // Angle-of-attack dependent forces and moments for slender bodies
   spinDamping: number;
   restitution: number;
   radius: number; // Characteristic radius (m)
-  momentOfInertia: THREE.Vector3; // Ix, Iy, Iz (kg·m²)
+  capsuleHalfLength?: number; // Collision capsule: half length of the straight section along +Y; a sphere when omitted (m)
+  momentOfInertia: THREE.Vector3; // Principal Ix, Iy, Iz in body axes, +Y along the mesh axis (kg·m²)
+  motor?: RocketMotor; // Onboard propulsion; massKg and momentOfInertia are the loaded values
   meshFactory: (palette: MaterialPalette) => THREE.Object3D;
 }
 
@@ -33,7 +57,7 @@ export interface ForceProfile {
   label: string;
   description: string;
   duration: number;
-  impulse: (t: number) => THREE.Vector3;
+  impulse: (t: number, out?: THREE.Vector3) => THREE.Vector3; // Writes to out when given
   spinAxis: THREE.Vector3;
   spinRate: number;
   launchElevation: number;
@@ -41,10 +65,17 @@ export interface ForceProfile {
   icon: string;
 }
 
-export interface EnvironmentState {
-  gravity: number;
-  windVector: THREE.Vector3;
-  airDensity: number;
+// Ground-level temperature, pressure and humidity drive the ISA atmosphere;
+// density, viscosity and speed of sound are derived from them at each altitude
+export interface EnvironmentState extends AtmosphericConditions {
+  gravity: number; // Uniform gravity; superseded by latitude- and altitude-dependent gravity in geophysical mode
+  windVector: THREE.Vector3; // Mean wind at the profile's reference height
+  windProfile?: WindProfile; // Vertical shear; uniform with height when omitted
+  turbulence?: TurbulenceSettings; // Fractal noise at the default intensity when omitted
+  gusts?: GustSettings; // Random gusts at the default rate when omitted
+  geophysics?: GeophysicalSettings; // Rotating, curved Earth; flat and inertial when omitted
+  windPerturbation?: THREE.Vector3; // Turbulence and gusts on top of the mean wind, set by the engine each substep
+  water?: WaterBody; // Water beneath the projectile, set by the engine each substep
 }
 
 export interface ManualLaunchConfig {
@@ -58,36 +89,163 @@ export interface LaunchParameters {
   environment: EnvironmentState;
   tint: THREE.Color;
   manualConfig?: ManualLaunchConfig; // Optional override
+  integrator?: string; // Registry id, defaults to 'rk4'
+  seed?: number; // Replay a previous launch by passing its record seed
 }
 
+// Ground interaction state: airborne, the step of an impact (or a skip off
+// water), skidding with the contact point slipping, rolling without slip, in
+// the water, come to rest, or buried in soft ground
+export type ContactPhase = 'flight' | 'bounce' | 'sliding' | 'rolling' | 'submerged' | 'rest' | 'embedded';
+
 export interface TelemetrySample {
   time: number;
   altitude: number;
   speed: number;
+  mach: number; // Airspeed over the local speed of sound
+  angleOfAttack: number; // Angle between the body axis and the relative wind (degrees)
+  thrust: number; // Motor thrust (N), zero without a burning motor
+  mass: number; // Current mass including unburnt propellant (kg)
+  phase: ContactPhase;
+  immersion: number; // Share of the body below the water surface (0–1)
   range: number;
   velocityX: number;
   velocityY: number;
   velocityZ: number;
   positionX: number;
+  positionY: number;
+  positionZ: number;
+  // Geophysical mode only: position less that of a flat-earth twin of the same launch (m)
+  driftX?: number;
+  driftY?: number;
+  driftZ?: number;
+}
+
+// Cumulative work done on the projectile since launch (J): positive where
+// energy flowed in, negative where it was taken out
+export interface EnergyWork {
+  profile: number; // Launch profile force and spin-up, or the manual impulse
+  thrust: number; // Rocket motor
+  drag: number; // Aerodynamic drag and damping moments, relative to the air
+  magnus: number; // Magnus lift
+  wind: number; // Aerodynamic force working through the wind's own motion
+  water: number; // Buoyancy, water drag and friction, skips
+  rolling: number; // Sliding and rolling friction while in ground contact
+  collisions: number; // Impacts with the ground, obstacles and other projectiles
+  propellant: number; // Energy carried off by burnt propellant
+}
+
+export interface EnergySample {
+  time: number;
+  translational: number; // ½mv² (J)
+  rotational: number; // ½ω·Iω (J)
+  potential: number; // mgh above the datum (J)
+  work: EnergyWork;
+  drift: number; // Energy unaccounted for: total less the energy on the pad and all work done (J)
+}
+
+export interface BounceRecord {
+  time: number; // Flight time at impact (s)
+  positionX: number;
+  positionY: number;
+  positionZ: number;
+  impactSpeed: number; // Speed just before the impact (m/s)
+  impactAngle: number; // Angle between the incoming velocity and the ground (degrees)
+  reboundSpeed: number; // Speed just after the impact (m/s)
+  energyLost: number; // Kinetic energy, translational and rotational, lost in the impact (J)
+  material: string; // Surface material id
+}
+
+export interface PenetrationRecord {
+  time: number; // Flight time at impact (s)
+  positionX: number; // Entry point on the ground surface, where the crater is
+  positionY: number;
+  positionZ: number;
+  embedX: number; // Centre of the buried projectile
+  embedY: number;
+  embedZ: number;
+  impactSpeed: number; // m/s
+  impactAngle: number; // Angle between the incoming velocity and the ground (degrees)
+  depth: number; // How far the leading surface went below the ground (m)
+  pathLength: number; // Distance travelled through the ground along the impact line (m)
+  duration: number; // Time taken to stop (s)
+  peakDeceleration: number; // At entry (m/s²)
+  meanDeceleration: number; // Over the whole path (m/s²)
+  craterRadius: number; // m
+  material: string; // Surface material id
+}
+
+export interface SplashEvent {
+  time: number; // Flight time at the surface strike (s)
+  kind: 'skip' | 'entry'; // Thrown back off the surface, or plunged in
+  positionX: number;
+  positionY: number;
+  positionZ: number;
+  impactSpeed: number; // m/s
+  impactAngle: number; // Angle between the incoming velocity and the surface (degrees)
+  body: string; // Water body id
+}
+
+export interface PropulsionEvent {
+  time: number; // Flight time (s)
+  kind: 'ignition' | 'burnout';
+  mass: number; // Projectile mass at the event (kg)
+}
+
+export interface CollisionRecord {
+  time: number; // Flight time of this launch at contact (s)
+  otherId: string; // Launch that was hit
+  impulse: number; // Normal impulse exchanged (N·s)
+  relativeSpeed: number; // Closing speed along the contact normal (m/s)
+  positionX: number;
+  positionY: number;
   positionZ: number;
 }
 
+export interface IntegrationStats {
+  steps: number; // Accepted steps
+  rejectedSteps: number; // Steps discarded by adaptive error control
+  evaluations: number; // Derivative evaluations
+  stepSize: number; // Last step taken (next proposed step for adaptive solvers)
+}
+
 export interface LaunchRecord {
   id: string;
   color: string;
   profileLabel: string;
   projectileLabel: string;
+  sessionSeed: number;
+  launchTime: number; // Engine time at launch (s)
+  seed: number; // Drives turbulence and gusts for this launch
+  integrator: string;
+  integration: IntegrationStats;
   samples: TelemetrySample[];
+  energy: EnergySample[]; // Energy ledger, sampled with the telemetry
+  collisions: CollisionRecord[];
+  gusts: GustEvent[]; // Gusts in the order they started, filled in as the flight runs
+  propulsion: PropulsionEvent[]; // Motor ignition and burnout, empty for ballistic rounds
+  bounces: BounceRecord[]; // Ground impacts in order
+  splashes: SplashEvent[]; // Water strikes in order
+  penetration?: PenetrationRecord; // Set when the flight ends buried in soft ground
   summary?: {
     maxHeight: number;
     totalRange: number;
     flightTime: number;
     impactSpeed: number;
+    carry: number; // Horizontal distance from launch to the first touchdown: bounce, splash or penetration (m)
+    rollout: number; // Horizontal distance from the first touchdown to rest (m)
   };
 }
 
+export interface ProjectileSnapshot {
+  id: string;
+  position: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  color: number;
+}
+
 export interface LaunchHandle {
-  record: LaunchRecord;
+  record: Promise<LaunchRecord>; // Settles once the physics worker has made the launch
   object: THREE.Object3D;
 }
 
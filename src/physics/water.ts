@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import { ProjectileState } from './types';
+import { RegionShape, SurfaceMaterial, regionContains } from './surfaces';
+
+// A pond, lake or harbour basin: an outline in the XZ plane filled to a still
+// surface. Inside the outline the terrain gives way to a flat bed one depth
+// below the surface.
+export interface WaterBody {
+  id: string;
+  area: RegionShape;
+  level: number; // Height of the still surface (m)
+  depth: number; // Surface to bed (m)
+  density?: number; // kg/m³; fresh water when omitted
+  bed?: SurfaceMaterial; // Bottom material; soft silt when omitted
+}
+
+export const FRESH_WATER_DENSITY = 1000; // kg/m³
+export const SEA_WATER_DENSITY = 1025; // kg/m³
+
+export const DEFAULT_WATER_BED: SurfaceMaterial = {
+  id: 'silt',
+  friction: 0.4,
+  restitution: 0.05,
+  rollingResistance: 0.15,
+  penetration: { strength: 2e4, inertia: 1300 }
+};
+
+// Skipping: a sphere ricochets off water when it strikes below a critical
+// angle θc ≈ 18°/√SG, SG being its density relative to the water (Birkhoff's
+// rule, confirmed by Johnson & Reid). Spin holds the body's attitude through
+// the planing contact and widens the window; too slow and the water can't
+// lift it back out whatever the angle. Very light bodies are capped, where
+// the rule no longer holds.
+const CRITICAL_ANGLE_SCALE = 18; // degrees at SG = 1
+const MAX_CRITICAL_ANGLE = 40; // degrees
+const SPIN_ANGLE_GAIN = 0.5; // Largest fractional widening of θc, reached at spin ratio ωr/v = 1
+const MIN_SKIP_FROUDE = 20; // Least v²/(g·r) that skips
+const SKIP_RESTITUTION = 0.5; // Vertical speed kept through a skip
+const SKIP_TANGENTIAL_RETENTION = 0.85; // Horizontal speed kept through a skip
+const SKIP_SPIN_RETENTION = 0.8;
+
+export function waterDensity(body: WaterBody): number {
+  return body.density ?? FRESH_WATER_DENSITY;
+}
+
+// Body of water over a point; where outlines overlap the last one listed wins
+export function waterAt(bodies: WaterBody[], x: number, z: number): WaterBody | undefined {
+  for (let i = bodies.length - 1; i >= 0; i--) {
+    if (regionContains(bodies[i].area, x, z)) return bodies[i];
+  }
+  return undefined;
+}
+
+// Volume of the projectile's characteristic sphere
+export function displacedVolume(state: ProjectileState): number {
+  return (4 / 3) * Math.PI * state.radius ** 3;
+}
+
+// Share of the characteristic sphere below the surface, from the volume of the
+// spherical cap of height h: πh²(3r − h)/3
+export function submergedFraction(body: WaterBody | undefined, position: THREE.Vector3, radius: number): number {
+  if (!body) return 0;
+  const h = THREE.MathUtils.clamp(body.level - (position.y - radius), 0, 2 * radius);
+  return (h * h * (3 * radius - h)) / (4 * radius ** 3);
+}
+
+export function specificGravity(state: ProjectileState, body: WaterBody): number {
+  return state.mass / (displacedVolume(state) * waterDensity(body));
+}
+
+// Critical skipping angle for the body's current speed and spin (degrees)
+export function criticalSkipAngle(state: ProjectileState, body: WaterBody): number {
+  const speed = state.velocity.length();
+  const spinRatio = speed > 0 ? (state.spin.length() * state.radius) / speed : 0;
+  const base = CRITICAL_ANGLE_SCALE / Math.sqrt(specificGravity(state, body));
+  return Math.min(base, MAX_CRITICAL_ANGLE) * (1 + SPIN_ANGLE_GAIN * Math.min(spinRatio, 1));
+}
+
+// Whether a body striking the surface with its current velocity skips
+export function skipsOffWater(state: ProjectileState, body: WaterBody, gravity: number): boolean {
+  const speed = state.velocity.length();
+  if (speed === 0 || state.velocity.y >= 0) return false;
+  const angle = THREE.MathUtils.radToDeg(Math.asin(Math.min(1, -state.velocity.y / speed)));
+  const froude = (speed * speed) / (gravity * state.radius);
+  return angle < criticalSkipAngle(state, body) && froude >= MIN_SKIP_FROUDE;
+}
+
+// Planing response: the surface throws the body back up, taking a share of its
+// horizontal speed and spin as it goes
+export function applySkip(state: ProjectileState): void {
+  state.velocity.x *= SKIP_TANGENTIAL_RETENTION;
+  state.velocity.z *= SKIP_TANGENTIAL_RETENTION;
+  state.velocity.y = -state.velocity.y * SKIP_RESTITUTION;
+  state.spin.multiplyScalar(SKIP_SPIN_RETENTION);
+}
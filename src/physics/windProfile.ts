@@ -0,0 +1,79 @@
+import * as THREE from 'three';
+
+// Vertical wind profiles. Every profile is expressed relative to the
+// environment's wind vector, which is the wind measured at the profile's
+// reference height, so the console's wind sliders keep their meaning.
+export interface WindLayer {
+  height: number; // Altitude above the ground datum (m)
+  speedFactor: number; // Wind speed relative to the reference wind
+  veer: number; // Direction change from the reference wind, right-handed about +Y (degrees)
+}
+
+export type WindProfile =
+  | { kind: 'uniform' }
+  // Neutral surface layer: u(h) ∝ ln((h - d) / z0)
+  | { kind: 'logarithmic'; referenceHeight: number; roughnessLength: number; displacementHeight?: number }
+  // Empirical power law: u(h) ∝ (h / h_ref)^α
+  | { kind: 'power'; referenceHeight: number; exponent: number }
+  // Piecewise-linear speed and direction between user-defined heights
+  | { kind: 'layers'; layers: WindLayer[] };
+
+export const UNIFORM_WIND: WindProfile = { kind: 'uniform' };
+
+const DEG2RAD = Math.PI / 180;
+const yAxis = new THREE.Vector3(0, 1, 0);
+
+function logFactor(height: number, roughness: number, displacement: number): number {
+  const effective = height - displacement;
+  return effective > roughness ? Math.log(effective / roughness) : 0;
+}
+
+// Speed factor and veer (radians) of a layered profile at an altitude; held
+// constant below the first and above the last layer
+function layerAt(layers: WindLayer[], altitude: number): [number, number] {
+  if (layers.length === 0) return [1, 0];
+  if (altitude <= layers[0].height) return [layers[0].speedFactor, layers[0].veer * DEG2RAD];
+  for (let i = 1; i < layers.length; i++) {
+    const upper = layers[i];
+    if (altitude <= upper.height) {
+      const lower = layers[i - 1];
+      const t = (altitude - lower.height) / (upper.height - lower.height);
+      return [
+        lower.speedFactor + (upper.speedFactor - lower.speedFactor) * t,
+        (lower.veer + (upper.veer - lower.veer) * t) * DEG2RAD
+      ];
+    }
+  }
+  const last = layers[layers.length - 1];
+  return [last.speedFactor, last.veer * DEG2RAD];
+}
+
+// Mean wind at an altitude for a reference wind measured at the profile's
+// reference height. Vertical components are scaled along with the horizontal.
+export function windAtAltitude(
+  profile: WindProfile | undefined,
+  referenceWind: THREE.Vector3,
+  altitude: number,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  out.copy(referenceWind);
+  if (!profile) return out;
+  switch (profile.kind) {
+    case 'uniform':
+      return out;
+    case 'logarithmic': {
+      const displacement = profile.displacementHeight ?? 0;
+      const reference = logFactor(profile.referenceHeight, profile.roughnessLength, displacement);
+      const local = logFactor(altitude, profile.roughnessLength, displacement);
+      return out.multiplyScalar(reference > 0 ? local / reference : 1);
+    }
+    case 'power': {
+      const ratio = Math.max(0, altitude) / profile.referenceHeight;
+      return out.multiplyScalar(Math.pow(ratio, profile.exponent));
+    }
+    case 'layers': {
+      const [speedFactor, veer] = layerAt(profile.layers, altitude);
+      return out.applyAxisAngle(yAxis, veer).multiplyScalar(speedFactor);
+    }
+  }
+}
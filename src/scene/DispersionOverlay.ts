@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+import { DispersionResult, ellipseOutline } from '../physics/dispersion';
+import { Heightfield } from '../physics/terrain';
+
+const LIFT = 0.08; // m above the ground, clear of the surface tint
+const ELLIPSE_COLORS = ['#6df2ff', '#b68cff']; // 1σ, 2σ
+const CEP_COLOR = '#f6b36b';
+const IMPACT_COLOR = '#f5f7ff';
+const MARKER_SIZE = 1.5; // Half-length of the arms of the mean point's cross (m)
+
+// Draws a dispersion study on the ground: the 1σ and 2σ ellipses and the CEP
+// circle about the mean point of impact, and each run's touchdown
+export class DispersionOverlay {
+  private group = new THREE.Group();
+  private terrain: Heightfield = Heightfield.flat();
+  private result?: DispersionResult;
+
+  constructor(scene: THREE.Scene) {
+    scene.add(this.group);
+  }
+
+  // Lines follow the ground, so a new terrain redraws them
+  setTerrain(terrain: Heightfield): void {
+    this.terrain = terrain;
+    this.show(this.result);
+  }
+
+  show(result: DispersionResult | undefined): void {
+    this.clear();
+    this.result = result;
+    if (!result || result.impacts.length === 0) return;
+    const centre = result.meanPoint;
+
+    result.ellipses.forEach((ellipse, i) => {
+      this.addLoop(ellipseOutline(ellipse, centre), ELLIPSE_COLORS[i % ELLIPSE_COLORS.length]);
+    });
+    this.addLoop(
+      ellipseOutline({ sigma: 0, semiMajor: result.cep, semiMinor: result.cep, angle: 0 }, centre),
+      CEP_COLOR,
+      true
+    );
+
+    const cross = [
+      [centre.x - MARKER_SIZE, centre.z, centre.x + MARKER_SIZE, centre.z],
+      [centre.x, centre.z - MARKER_SIZE, centre.x, centre.z + MARKER_SIZE]
+    ].flatMap(([x0, z0, x1, z1]) => [this.ground(x0, z0), this.ground(x1, z1)]);
+    this.group.add(
+      new THREE.LineSegments(
+        new THREE.BufferGeometry().setFromPoints(cross),
+        new THREE.LineBasicMaterial({ color: CEP_COLOR })
+      )
+    );
+
+    // Each at the height of the surface it struck, so water strikes sit on the water
+    const impacts = result.impacts.map((p) => new THREE.Vector3(p.x, p.y + LIFT, p.z));
+    this.group.add(
+      new THREE.Points(
+        new THREE.BufferGeometry().setFromPoints(impacts),
+        new THREE.PointsMaterial({ color: IMPACT_COLOR, size: 0.6, transparent: true, opacity: 0.8 })
+      )
+    );
+  }
+
+  clear(): void {
+    this.group.children.forEach((child) => {
+      const object = child as THREE.Line | THREE.Points;
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    });
+    this.group.clear();
+    this.result = undefined;
+  }
+
+  private addLoop(points: { x: number; z: number }[], color: string, dashed = false): void {
+    const geometry = new THREE.BufferGeometry().setFromPoints(points.map((p) => this.ground(p.x, p.z)));
+    const material = dashed
+      ? new THREE.LineDashedMaterial({ color, dashSize: 1, gapSize: 0.6 })
+      : new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.9 });
+    const loop = new THREE.LineLoop(geometry, material);
+    if (dashed) {
+      loop.computeLineDistances();
+    }
+    this.group.add(loop);
+  }
+
+  private ground(x: number, z: number): THREE.Vector3 {
+    return new THREE.Vector3(x, this.terrain.heightAt(x, z) + LIFT, z);
+  }
+}
@@ -1,36 +1,241 @@
 import * as THREE from 'three';
 import { AssetLibrary } from '../assets/proceduralTextures';
+import { Heightfield } from '../physics/terrain';
+import { RegionShape, SurfaceMapDefinition, SurfaceMaterial, SurfaceRegion } from '../physics/surfaces';
+import { WaterBody, waterAt } from '../physics/water';
+
+const TEXTURE_TILE = 20; // Metres of ground covered by one texture repeat
+const SURFACE_TEXTURE_SIZE = 2048; // Pixels across the painted surface overlay
+const BASE_TINT_ALPHA = 0.3;
+const REGION_TINT_ALPHA = 0.6;
+const WATER_COLOR = '#1d4f6e';
+const WATER_OPACITY = 0.78;
+const WATER_CURVE_SEGMENTS = 48; // Segments around circular shorelines
+
+type MaterialColor = (material: SurfaceMaterial) => string;
 
 export class Environment {
   private scene: THREE.Scene;
   private assets: AssetLibrary;
+  private ground: THREE.Group | null = null;
+  private terrain: Heightfield;
+  private surfaces: { definition: SurfaceMapDefinition; colorOf: MaterialColor } | null = null;
+  private surfaceOverlay: THREE.Mesh | null = null;
+  private water: WaterBody[] = [];
+  private waterSurfaces: THREE.Group | null = null;
 
-  constructor(scene: THREE.Scene, assets: AssetLibrary) {
+  constructor(scene: THREE.Scene, assets: AssetLibrary, terrain: Heightfield) {
     this.scene = scene;
     this.assets = assets;
-    this.buildGround();
+    this.terrain = terrain;
+    this.buildGround(terrain);
     this.buildBackdrop();
   }
 
-  private buildGround(): void {
-    const geometry = new THREE.PlaneGeometry(10000, 10000);
-    const material = new THREE.MeshStandardMaterial({
-      map: this.assets.groundTexture,
-      roughness: 0.95,
-      metalness: 0.05
-    });
-    
+  setTerrain(terrain: Heightfield): void {
+    this.terrain = terrain;
+    this.buildGround(terrain);
+  }
+
+  // Tint the ground with the material map so painted regions are visible
+  setSurfaceMap(definition: SurfaceMapDefinition, colorOf: MaterialColor): void {
+    this.surfaces = { definition, colorOf };
+    this.buildSurfaceOverlay();
+  }
+
+  // Cut the basins into the ground mesh and lay a surface over each
+  setWaterBodies(bodies: WaterBody[]): void {
+    this.water = bodies;
+    this.buildGround(this.terrain);
+    this.buildWater();
+  }
+
+  private buildGround(terrain: Heightfield): void {
+    if (this.ground) {
+      this.scene.remove(this.ground);
+      this.ground.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+    }
+    this.ground = new THREE.Group();
+
     // Configure texture to repeat for infinite appearance
     if (this.assets.groundTexture) {
       this.assets.groundTexture.wrapS = THREE.RepeatWrapping;
       this.assets.groundTexture.wrapT = THREE.RepeatWrapping;
-      this.assets.groundTexture.repeat.set(500, 500);
     }
-    
+
+    // Heightfield patch: the vertex grid matches the physics samples one to one,
+    // dropped to the bed wherever a body of water covers it
+    const segments = terrain.resolution - 1;
+    const geometry = new THREE.PlaneGeometry(terrain.size, terrain.size, segments, segments);
+    geometry.rotateX(-Math.PI / 2);
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+    for (let i = 0; i < positions.count; i++) {
+      const water = waterAt(this.water, positions.getX(i), positions.getZ(i));
+      positions.setY(i, water ? water.level - water.depth : terrain.heights[i]);
+    }
+    geometry.computeVertexNormals();
+    const texture = this.assets.groundTexture.clone();
+    texture.repeat.set(terrain.size / TEXTURE_TILE, terrain.size / TEXTURE_TILE);
+    const material = new THREE.MeshStandardMaterial({
+      map: texture,
+      roughness: 0.95,
+      metalness: 0.05
+    });
     const mesh = new THREE.Mesh(geometry, material);
-    mesh.rotation.x = -Math.PI / 2;
     mesh.receiveShadow = true;
-    this.scene.add(mesh);
+    this.ground.add(mesh);
+
+    // Far plane continues the horizon, tucked just below the patch to avoid z-fighting
+    const farTexture = this.assets.groundTexture.clone();
+    farTexture.repeat.set(10000 / TEXTURE_TILE, 10000 / TEXTURE_TILE);
+    const far = new THREE.Mesh(
+      new THREE.PlaneGeometry(10000, 10000),
+      new THREE.MeshStandardMaterial({ map: farTexture, roughness: 0.95, metalness: 0.05 })
+    );
+    far.rotation.x = -Math.PI / 2;
+    far.position.y = Math.min(0, terrain.minHeight) - 0.05;
+    far.receiveShadow = true;
+    this.ground.add(far);
+
+    this.scene.add(this.ground);
+    this.surfaceOverlay = null;
+    this.buildSurfaceOverlay();
+  }
+
+  // Transparent copy of the terrain mesh carrying the material map, drawn just
+  // in front of the ground
+  private buildSurfaceOverlay(): void {
+    if (!this.ground) return;
+    if (this.surfaceOverlay) {
+      this.ground.remove(this.surfaceOverlay);
+      this.surfaceOverlay.geometry.dispose();
+      const material = this.surfaceOverlay.material as THREE.MeshStandardMaterial;
+      material.map?.dispose();
+      material.dispose();
+      this.surfaceOverlay = null;
+    }
+    if (!this.surfaces) return;
+
+    const terrain = this.terrain;
+    const canvas = document.createElement('canvas');
+    canvas.width = SURFACE_TEXTURE_SIZE;
+    canvas.height = SURFACE_TEXTURE_SIZE;
+    const ctx = canvas.getContext('2d')!;
+    // World (x, z) to canvas pixels; the canvas top edge is z = -size/2
+    const scale = SURFACE_TEXTURE_SIZE / terrain.size;
+    ctx.setTransform(scale, 0, 0, scale, (terrain.size / 2) * scale, (terrain.size / 2) * scale);
+
+    const { definition, colorOf } = this.surfaces;
+    ctx.globalAlpha = BASE_TINT_ALPHA;
+    ctx.fillStyle = colorOf(definition.base);
+    ctx.fillRect(-terrain.size / 2, -terrain.size / 2, terrain.size, terrain.size);
+    // Each region replaces whatever was painted beneath it
+    definition.regions.forEach((region) => {
+      ctx.globalCompositeOperation = 'destination-out';
+      ctx.globalAlpha = 1;
+      this.traceRegion(ctx, region);
+      ctx.fill();
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.globalAlpha = REGION_TINT_ALPHA;
+      ctx.fillStyle = colorOf(region.material);
+      this.traceRegion(ctx, region);
+      ctx.fill();
+    });
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    const ground = this.ground.children[0] as THREE.Mesh;
+    const overlay = new THREE.Mesh(
+      ground.geometry.clone(),
+      new THREE.MeshStandardMaterial({
+        map: texture,
+        transparent: true,
+        depthWrite: false,
+        polygonOffset: true,
+        polygonOffsetFactor: -1,
+        roughness: 0.9,
+        metalness: 0
+      })
+    );
+    overlay.receiveShadow = true;
+    this.ground.add(overlay);
+    this.surfaceOverlay = overlay;
+  }
+
+  private traceRegion(ctx: CanvasRenderingContext2D, region: SurfaceRegion): void {
+    ctx.beginPath();
+    switch (region.shape) {
+      case 'rect':
+        ctx.rect(region.min[0], region.min[1], region.max[0] - region.min[0], region.max[1] - region.min[1]);
+        break;
+      case 'circle':
+        ctx.arc(region.center[0], region.center[1], region.radius, 0, Math.PI * 2);
+        break;
+      case 'polygon':
+        region.points.forEach(([x, z], i) => (i === 0 ? ctx.moveTo(x, z) : ctx.lineTo(x, z)));
+        ctx.closePath();
+        break;
+    }
+  }
+
+  private buildWater(): void {
+    if (this.waterSurfaces) {
+      this.scene.remove(this.waterSurfaces);
+      this.waterSurfaces.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+    }
+    this.waterSurfaces = new THREE.Group();
+    this.water.forEach((body) => {
+      const geometry = new THREE.ShapeGeometry(this.outline(body.area), WATER_CURVE_SEGMENTS);
+      geometry.rotateX(-Math.PI / 2);
+      const surface = new THREE.Mesh(
+        geometry,
+        new THREE.MeshStandardMaterial({
+          color: WATER_COLOR,
+          transparent: true,
+          opacity: WATER_OPACITY,
+          roughness: 0.12,
+          metalness: 0.3,
+          side: THREE.DoubleSide
+        })
+      );
+      surface.position.y = body.level;
+      surface.receiveShadow = true;
+      this.waterSurfaces!.add(surface);
+    });
+    this.scene.add(this.waterSurfaces);
+  }
+
+  // Shoreline as a 2D shape; rotating it onto the ground maps shape (x, y) to
+  // world (x, -y), so z is negated going in
+  private outline(area: RegionShape): THREE.Shape {
+    const shape = new THREE.Shape();
+    switch (area.shape) {
+      case 'rect':
+        shape.moveTo(area.min[0], -area.min[1]);
+        shape.lineTo(area.max[0], -area.min[1]);
+        shape.lineTo(area.max[0], -area.max[1]);
+        shape.lineTo(area.min[0], -area.max[1]);
+        shape.closePath();
+        break;
+      case 'circle':
+        shape.absarc(area.center[0], -area.center[1], area.radius, 0, Math.PI * 2, false);
+        break;
+      case 'polygon':
+        area.points.forEach(([x, z], i) => (i === 0 ? shape.moveTo(x, -z) : shape.lineTo(x, -z)));
+        shape.closePath();
+        break;
+    }
+    return shape;
   }
 
   private buildBackdrop(): void {
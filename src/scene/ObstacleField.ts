@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import { NET_THICKNESS, ObstacleDefinition } from '../physics/obstacles';
+
+const DEG2RAD = Math.PI / 180;
+
+// Builds meshes from the same obstacle definitions the physics engine collides
+// against, so what is drawn is exactly what is hit
+export class ObstacleField {
+  private group = new THREE.Group();
+  private solidMaterial = new THREE.MeshStandardMaterial({ color: '#8a94a6', roughness: 0.7, metalness: 0.15 });
+  private netMaterial = new THREE.MeshBasicMaterial({
+    color: '#f5f7ff',
+    wireframe: true,
+    transparent: true,
+    opacity: 0.55
+  });
+
+  constructor(scene: THREE.Scene) {
+    scene.add(this.group);
+  }
+
+  setLayout(definitions: ObstacleDefinition[]): void {
+    this.group.children.forEach((child) => (child as THREE.Mesh).geometry.dispose());
+    this.group.clear();
+    definitions.forEach((definition) => this.group.add(this.buildMesh(definition)));
+  }
+
+  private buildMesh(definition: ObstacleDefinition): THREE.Mesh {
+    let mesh: THREE.Mesh;
+    switch (definition.shape) {
+      case 'box':
+        mesh = new THREE.Mesh(new THREE.BoxGeometry(...definition.size), this.solidMaterial);
+        break;
+      case 'orientedBox': {
+        const [x, y, z] = definition.rotation;
+        mesh = new THREE.Mesh(new THREE.BoxGeometry(...definition.size), this.solidMaterial);
+        mesh.rotation.set(x * DEG2RAD, y * DEG2RAD, z * DEG2RAD);
+        break;
+      }
+      case 'cylinder':
+        mesh = new THREE.Mesh(
+          new THREE.CylinderGeometry(definition.radius, definition.radius, definition.height, 32),
+          this.solidMaterial
+        );
+        break;
+      case 'net': {
+        // One wireframe cell per ~12 cm of mesh
+        const columns = Math.max(1, Math.round(definition.width / 0.12));
+        const rows = Math.max(1, Math.round(definition.height / 0.12));
+        mesh = new THREE.Mesh(
+          new THREE.BoxGeometry(definition.width, definition.height, NET_THICKNESS, columns, rows, 1),
+          this.netMaterial
+        );
+        mesh.rotation.y = definition.yaw * DEG2RAD;
+        break;
+      }
+    }
+    mesh.position.set(...definition.center);
+    mesh.castShadow = definition.shape !== 'net';
+    mesh.receiveShadow = true;
+    mesh.name = definition.id;
+    return mesh;
+  }
+}
@@ -1,9 +1,18 @@
 import * as THREE from 'three';
 import { AssetLibrary } from '../assets/proceduralTextures';
 
+const SPLASH_POOL = 600; // Droplets shared by all splashes; the oldest are reused first
+const SPLASH_GRAVITY = 9.81;
+const HIDDEN_Y = -1e4; // Parking height for spent droplets
+
 export class Particles {
   private group: THREE.Points;
   private velocities: Float32Array;
+  private droplets: THREE.Points;
+  private dropletVelocities = new Float32Array(SPLASH_POOL * 3);
+  private dropletLife = new Float32Array(SPLASH_POOL); // Seconds left; zero when parked
+  private dropletFloor = new Float32Array(SPLASH_POOL); // Surface height each droplet falls back to
+  private nextDroplet = 0;
 
   constructor(scene: THREE.Scene, assets: AssetLibrary) {
     const count = 200;
@@ -30,6 +39,45 @@ export class Particles {
     });
     this.group = new THREE.Points(geometry, material);
     scene.add(this.group);
+
+    const dropletGeometry = new THREE.BufferGeometry();
+    const dropletPositions = new Float32Array(SPLASH_POOL * 3).fill(HIDDEN_Y);
+    dropletGeometry.setAttribute('position', new THREE.BufferAttribute(dropletPositions, 3));
+    this.droplets = new THREE.Points(
+      dropletGeometry,
+      new THREE.PointsMaterial({
+        color: '#d9f4ff',
+        size: 0.18,
+        map: assets.glowTexture,
+        transparent: true,
+        opacity: 0.9,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false
+      })
+    );
+    this.droplets.frustumCulled = false;
+    scene.add(this.droplets);
+  }
+
+  // Throw up a crown of droplets where something hit the water; harder strikes
+  // throw more of them, higher
+  splash(position: THREE.Vector3, speed: number): void {
+    const positions = this.droplets.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const count = Math.min(SPLASH_POOL / 4, Math.round(20 + speed * 4));
+    const lift = Math.min(2 + speed * 0.25, 12);
+    for (let n = 0; n < count; n++) {
+      const i = this.nextDroplet;
+      this.nextDroplet = (this.nextDroplet + 1) % SPLASH_POOL;
+      const angle = Math.random() * Math.PI * 2;
+      const spread = lift * (0.15 + Math.random() * 0.35);
+      positions.setXYZ(i, position.x, position.y, position.z);
+      this.dropletVelocities[i * 3] = Math.cos(angle) * spread;
+      this.dropletVelocities[i * 3 + 1] = lift * (0.5 + Math.random() * 0.5);
+      this.dropletVelocities[i * 3 + 2] = Math.sin(angle) * spread;
+      this.dropletLife[i] = 2.5;
+      this.dropletFloor[i] = position.y;
+    }
+    positions.needsUpdate = true;
   }
 
   update(dt: number): void {
@@ -42,5 +90,31 @@ export class Particles {
       positions.setY(i, y);
     }
     positions.needsUpdate = true;
+    this.updateDroplets(dt);
+  }
+
+  // Ballistic droplets, parked out of sight once they fall back or expire
+  private updateDroplets(dt: number): void {
+    const positions = this.droplets.geometry.getAttribute('position') as THREE.BufferAttribute;
+    let moving = false;
+    for (let i = 0; i < SPLASH_POOL; i++) {
+      if (this.dropletLife[i] <= 0) continue;
+      moving = true;
+      this.dropletLife[i] -= dt;
+      this.dropletVelocities[i * 3 + 1] -= SPLASH_GRAVITY * dt;
+      positions.setXYZ(
+        i,
+        positions.getX(i) + this.dropletVelocities[i * 3] * dt,
+        positions.getY(i) + this.dropletVelocities[i * 3 + 1] * dt,
+        positions.getZ(i) + this.dropletVelocities[i * 3 + 2] * dt
+      );
+      if (this.dropletLife[i] <= 0 || positions.getY(i) < this.dropletFloor[i]) {
+        this.dropletLife[i] = 0;
+        positions.setY(i, HIDDEN_Y);
+      }
+    }
+    if (moving) {
+      positions.needsUpdate = true;
+    }
   }
 }
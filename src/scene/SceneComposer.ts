@@ -9,6 +9,7 @@ import { CameraRig } from './CameraRig';
 import { LightingRig } from './LightingRig';
 import { Environment } from './Environment';
 import { Particles } from './Particles';
+import { Heightfield } from '../physics/terrain';
 
 export class SceneComposer {
   readonly scene: THREE.Scene;
@@ -21,7 +22,7 @@ export class SceneComposer {
   readonly particles: Particles;
   readonly assets: AssetLibrary;
 
-  constructor(container: HTMLElement) {
+  constructor(container: HTMLElement, terrain: Heightfield) {
     this.scene = new THREE.Scene();
     this.assets = new AssetLibrary();
 
@@ -36,7 +37,7 @@ export class SceneComposer {
     container.appendChild(this.renderer.domElement);
 
     this.cameraRig = new CameraRig(this.renderer.domElement);
-    this.environment = new Environment(this.scene, this.assets);
+    this.environment = new Environment(this.scene, this.assets, terrain);
     this.lighting = new LightingRig(this.scene);
     this.lightingRig = this.lighting; // Provide alias for external access
     this.particles = new Particles(this.scene, this.assets);
@@ -0,0 +1,300 @@
+import * as THREE from 'three';
+import { SimulationClient } from '../worker/SimulationClient';
+import {
+  LaunchHandle,
+  LaunchParameters,
+  LaunchRecord,
+  MaterialPalette,
+  PenetrationRecord,
+  ProjectileDefinition,
+  SplashEvent
+} from '../physics/types';
+
+const MAX_TRAIL_POINTS = 360;
+const MAX_CRATERS = 24; // Buried projectiles left in the scene, the most recent
+const CRATER_COLOR = '#2a1d12';
+const CRATER_RIM_COLOR = '#8a6a48';
+
+interface ProjectileVisual {
+  mesh: THREE.Object3D;
+  trail: THREE.Line;
+  positions: Float32Array;
+}
+
+// Kept while a seek can still bring the launch's visual back; the camera may
+// be tracking the mesh, so it is reused rather than rebuilt
+interface LaunchEntry {
+  params: LaunchParameters;
+  mesh: THREE.Object3D;
+}
+
+interface Crater {
+  id: string; // Launch that dug it
+  group: THREE.Group;
+}
+
+// Mirrors the physics worker into a THREE.Scene: one mesh and one trail per
+// active projectile, removed when the engine retires the projectile and
+// brought back when a seek returns to a moment it was still flying.
+export class SimulationRenderer {
+  private scene: THREE.Scene;
+  private palette: MaterialPalette;
+  private launches = new Map<string, LaunchEntry>();
+  private visuals = new Map<string, ProjectileVisual>();
+  private craters: Crater[] = [];
+  private pruned?: LaunchRecord[]; // Record list the launches were last pruned against
+  readonly engine: SimulationClient;
+  onSplash?: (splash: SplashEvent) => void; // Each water strike, once, as the engine records it
+
+  constructor(scene: THREE.Scene, palette: MaterialPalette, engine: SimulationClient) {
+    this.scene = scene;
+    this.palette = palette;
+    this.engine = engine;
+    engine.events.on('splash', (event) => this.onSplash?.(event.splash));
+  }
+
+  spawnPreview(projectileDef: ProjectileDefinition): THREE.Object3D {
+    const mesh = projectileDef.meshFactory(this.palette);
+    mesh.position.set(0, 1.5, 0); // Default spawn height
+    this.scene.add(mesh);
+    return mesh;
+  }
+
+  // The mesh waits on the pad until the worker has made the launch, and leaves
+  // it again if the launch fails; sync() gives it a trail once the projectile
+  // shows up in a physics frame
+  launch(params: LaunchParameters): LaunchHandle {
+    const mesh = params.projectile.meshFactory(this.palette);
+    const launchPos = params.profile.launchPosition || new THREE.Vector3(0, 1.2, 0);
+    mesh.position.copy(launchPos);
+    this.scene.add(mesh);
+    const record = this.engine.launch(params).then(
+      (launched) => {
+        this.launches.set(launched.id, { params, mesh });
+        return launched;
+      },
+      (error: Error) => {
+        this.scene.remove(mesh);
+        disposeMesh(mesh);
+        throw error;
+      }
+    );
+    return { record, object: mesh };
+  }
+
+  // Drop a launch from the scene for good: its mesh, trail and crater. A seek
+  // back into its flight no longer shows it.
+  removeLaunch(id: string): void {
+    const entry = this.launches.get(id);
+    if (!entry) return;
+    this.removeVisual(id);
+    this.craters = this.craters.filter((crater) => {
+      if (crater.id !== id) return true;
+      this.clearCrater(crater);
+      return false;
+    });
+    this.scene.remove(entry.mesh);
+    disposeMesh(entry.mesh);
+    this.launches.delete(id);
+  }
+
+  // Place the scene at the moment the client interpolated for this render.
+  // After a seek the trails are laid along the recorded flights up to it.
+  update(): void {
+    const jumped = this.engine.update();
+    this.pruneLaunches(jumped);
+    this.sync();
+    if (!jumped) return;
+    const records = this.engine.getLaunchRecords();
+    this.visuals.forEach((visual, id) => {
+      const record = records.find((r) => r.id === id);
+      if (record) {
+        this.retrace(visual, record, this.engine.getTime() - record.launchTime);
+      }
+    });
+  }
+
+  stepTicks(count: number): void {
+    this.engine.stepTicks(count);
+  }
+
+  // Move the scene to another moment of the engine's history; it gets there
+  // with the worker's reply
+  seek(time: number): void {
+    this.engine.seek(time);
+  }
+
+  // Copy the engine's state onto meshes and trails, and reconcile the scene
+  // with which launches are flying, which have finished and which a branch
+  // discarded
+  sync(): void {
+    const records = this.engine.getLaunchRecords();
+    const now = this.engine.getTime();
+    const active = this.engine.getActiveProjectiles();
+    const live = new Set(active.map((snapshot) => snapshot.id));
+    // Buried launches that are over by the moment shown keep their craters,
+    // the most recent of them
+    const buried = records
+      .filter((record) => record.penetration && !live.has(record.id) && record.launchTime <= now)
+      .slice(-MAX_CRATERS);
+
+    this.craters = this.craters.filter((crater) => {
+      if (buried.some((record) => record.id === crater.id)) return true;
+      this.clearCrater(crater);
+      return false;
+    });
+
+    active.forEach((snapshot) => {
+      let visual = this.visuals.get(snapshot.id);
+      if (!visual) {
+        const entry = this.launches.get(snapshot.id);
+        if (!entry) return;
+        visual = this.createVisual(snapshot.id, entry);
+      }
+      visual.mesh.position.copy(snapshot.position);
+      visual.mesh.quaternion.copy(snapshot.rotation);
+      this.updateTrail(visual, snapshot.position);
+    });
+
+    this.visuals.forEach((_, id) => {
+      if (!live.has(id)) {
+        this.removeVisual(id);
+      }
+    });
+
+    buried.forEach((record) => {
+      const entry = this.launches.get(record.id);
+      if (entry && !this.craters.some((crater) => crater.id === record.id)) {
+        this.leaveCrater(record.id, entry.mesh, record.penetration!);
+      }
+    });
+  }
+
+  // Launches no seek can bring back: discarded by a branch, or finished before
+  // the earliest moment left in the history and not lying in a crater. Checked
+  // when the record list changes or the clock jumps.
+  private pruneLaunches(jumped: boolean): void {
+    const records = this.engine.getLaunchRecords();
+    if (records === this.pruned && !jumped) return;
+    this.pruned = records;
+    const start = this.engine.getHistoryRange().start;
+    const byId = new Map(records.map((record) => [record.id, record]));
+    this.launches.forEach((_, id) => {
+      const record = byId.get(id);
+      const last = record?.samples[record.samples.length - 1];
+      const past = record?.summary !== undefined && last !== undefined && record.launchTime + last.time < start;
+      if (!record || (past && !this.craters.some((crater) => crater.id === id))) {
+        this.removeLaunch(id);
+      }
+    });
+  }
+
+  private createVisual(id: string, entry: LaunchEntry): ProjectileVisual {
+    const { mesh, params } = entry;
+    this.scene.add(mesh); // Lifts it back out of its crater after a seek
+
+    const positions = new Float32Array(MAX_TRAIL_POINTS * 3);
+    for (let i = 0; i < MAX_TRAIL_POINTS; i++) {
+      positions[i * 3] = mesh.position.x;
+      positions[i * 3 + 1] = mesh.position.y;
+      positions[i * 3 + 2] = mesh.position.z;
+    }
+    const trailGeometry = new THREE.BufferGeometry();
+    trailGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const trailMaterial = new THREE.LineBasicMaterial({
+      color: params.tint.getHex(),
+      transparent: true,
+      opacity: 0.65
+    });
+    const trail = new THREE.Line(trailGeometry, trailMaterial);
+    trail.frustumCulled = false;
+    this.scene.add(trail);
+
+    const visual = { mesh, trail, positions };
+    this.visuals.set(id, visual);
+    return visual;
+  }
+
+  private removeVisual(id: string): void {
+    const visual = this.visuals.get(id);
+    if (!visual) return;
+    this.scene.remove(visual.mesh);
+    this.scene.remove(visual.trail);
+    visual.trail.geometry.dispose();
+    (visual.trail.material as THREE.Material).dispose();
+    this.visuals.delete(id);
+  }
+
+  // A projectile that buried itself stays where it stopped, in a dark crater
+  // with a rim of ejecta
+  private leaveCrater(id: string, mesh: THREE.Object3D, penetration: PenetrationRecord): void {
+    mesh.position.set(penetration.embedX, penetration.embedY, penetration.embedZ);
+
+    const crater = new THREE.Group();
+    const pit = new THREE.Mesh(
+      new THREE.CircleGeometry(penetration.craterRadius, 32),
+      new THREE.MeshStandardMaterial({ color: CRATER_COLOR, roughness: 1, transparent: true, opacity: 0.85 })
+    );
+    const rim = new THREE.Mesh(
+      new THREE.RingGeometry(penetration.craterRadius, penetration.craterRadius * 1.35, 32),
+      new THREE.MeshStandardMaterial({ color: CRATER_RIM_COLOR, roughness: 1, transparent: true, opacity: 0.7 })
+    );
+    [pit, rim].forEach((part) => {
+      part.rotation.x = -Math.PI / 2;
+      part.position.set(penetration.positionX, penetration.positionY + 0.01, penetration.positionZ);
+      crater.add(part);
+    });
+    crater.add(mesh); // Cleared along with its crater
+    this.scene.add(crater);
+    this.craters.push({ id, group: crater });
+  }
+
+  private clearCrater(crater: Crater): void {
+    this.scene.remove(crater.group);
+    crater.group.children.slice(0, 2).forEach((part) => {
+      const surface = part as THREE.Mesh;
+      surface.geometry.dispose();
+      (surface.material as THREE.Material).dispose();
+    });
+  }
+
+  // Rebuild a trail from telemetry up to a flight time, newest point first
+  private retrace(visual: ProjectileVisual, record: LaunchRecord, until: number): void {
+    const points = record.samples.filter((sample) => sample.time <= until).slice(-(MAX_TRAIL_POINTS - 1));
+    const positions = visual.positions;
+    positions[0] = visual.mesh.position.x;
+    positions[1] = visual.mesh.position.y;
+    positions[2] = visual.mesh.position.z;
+    for (let i = 1; i < MAX_TRAIL_POINTS; i++) {
+      const sample = points[Math.max(0, points.length - i)];
+      if (sample) {
+        positions[i * 3] = sample.positionX;
+        positions[i * 3 + 1] = sample.positionY;
+        positions[i * 3 + 2] = sample.positionZ;
+      } else {
+        positions.copyWithin(i * 3, (i - 1) * 3, i * 3);
+      }
+    }
+    visual.trail.geometry.getAttribute('position').needsUpdate = true;
+  }
+
+  private updateTrail(visual: ProjectileVisual, position: THREE.Vector3): void {
+    const positions = visual.positions;
+    positions.copyWithin(3, 0, (MAX_TRAIL_POINTS - 1) * 3);
+    positions[0] = position.x;
+    positions[1] = position.y;
+    positions[2] = position.z;
+    const attr = visual.trail.geometry.getAttribute('position');
+    attr.needsUpdate = true;
+  }
+}
+
+// Meshes come from the catalog's factories with geometry and materials of
+// their own; the palette's textures they share stay
+function disposeMesh(mesh: THREE.Object3D): void {
+  mesh.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    object.geometry.dispose();
+    (Array.isArray(object.material) ? object.material : [object.material]).forEach((material) => material.dispose());
+  });
+}
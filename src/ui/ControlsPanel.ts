@@ -3,39 +3,115 @@ import { Pane } from 'tweakpane';
 import type { FolderApi } from 'tweakpane';
 import chroma from 'chroma-js';
 import { EnvironmentState, ForceProfile, ProjectileDefinition } from '../physics/types';
+import { SeededRandom } from '../physics/random';
+import { DEFAULT_INTEGRATOR, listIntegrators } from '../physics/integrators';
+import { sampleAtmosphere } from '../physics/atmosphere';
+import { DEFAULT_TURBULENCE, TurbulenceModel } from '../physics/turbulence';
+import { DEFAULT_GUSTS } from '../physics/gusts';
+import type { DispersionSettings, Distribution } from '../physics/dispersion';
+import type { ObstacleLayout } from '../data/obstacleLayouts';
+import type { WindProfilePreset } from '../data/windProfiles';
+import type { SurfaceLayout } from '../data/surfaceMaps';
+import type { WaterLayout } from '../data/waterBodies';
 
 interface ControlsConfig {
 	forces: ForceProfile[];
 	projectiles: ProjectileDefinition[];
+	layouts?: ObstacleLayout[];
+	windProfiles?: WindProfilePreset[];
+	surfaceLayouts?: SurfaceLayout[];
+	waterLayouts?: WaterLayout[];
 	initialEnvironment: EnvironmentState;
-	onLaunch: (params: { force: ForceProfile; projectile: ProjectileDefinition; tint: string; environment: EnvironmentState }) => void;
+	seed: number; // Session seed for tint selection
+	onLaunch: (params: {
+		force: ForceProfile;
+		projectile: ProjectileDefinition;
+		tint: string;
+		environment: EnvironmentState;
+		integrator: string;
+	}) => void;
 	onEnvironmentChange: (environment: EnvironmentState) => void;
+	onDispersion?: (
+		params: { force: ForceProfile; projectile: ProjectileDefinition; environment: EnvironmentState; integrator: string },
+		settings: Omit<DispersionSettings, 'seed'>
+	) => void;
+	onDispersionExport?: () => void;
 	onForceHover?: (profile: ForceProfile) => void;
 	onProjectileChange?: (projectile: ProjectileDefinition) => void;
-	onSurfaceChange?: (surface: 'grass' | 'concrete' | 'dirt' | 'ice') => void;
+	onSurfaceChange?: (layout: SurfaceLayout) => void;
+	onWaterChange?: (layout: WaterLayout) => void;
+	onLayoutChange?: (layout: ObstacleLayout) => void;
 }
 
 export class ControlsPanel {
 	private pane: any;
+	private random: SeededRandom;
 	private state = {
 		forceId: '',
 		projectileId: '',
+		integrator: DEFAULT_INTEGRATOR,
+		layoutId: '',
 		gravity: 9.81,
-		airDensity: 1.0,
+		temperature: 15, // °C
+		pressure: 1013.25, // hPa
+		humidity: 50, // %
+		airDensity: 0, // Derived, read-only
+		speedOfSound: 0, // Derived, read-only
 		windX: 2,
 		windY: 0,
 		windZ: -1.5,
-		surface: 'grass' as 'grass' | 'concrete' | 'dirt' | 'ice'
+		windProfileId: '',
+		turbulenceModel: DEFAULT_TURBULENCE.model as TurbulenceModel,
+		turbulenceIntensity: DEFAULT_TURBULENCE.intensity * 100, // %
+		lengthScale: DEFAULT_TURBULENCE.lengthScale,
+		verticalLengthScale: DEFAULT_TURBULENCE.verticalLengthScale,
+		gustRate: DEFAULT_GUSTS.randomRate, // per minute
+		gustAmplitude: DEFAULT_GUSTS.amplitude,
+		gustDuration: DEFAULT_GUSTS.duration,
+		scriptedGustTime: 0, // s after launch, 0 = none
+		scriptedGustHeading: 0, // degrees
+		geophysics: false,
+		latitude: 45, // degrees north
+		azimuth: 90, // Bearing of +X, degrees clockwise from north
+		surfaceId: '',
+		waterId: '',
+		dispersionRuns: 100,
+		dispersionKind: 'normal' as Distribution['kind'],
+		impulseError: 2, // %, 1σ or half-width
+		spinError: 5, // %
+		windError: 1, // m/s
+		dragError: 3, // %
+		dispersionReport: 'No study run'
 	};
 
 	constructor(root: HTMLElement, private config: ControlsConfig) {
+		this.random = new SeededRandom(config.seed);
 		this.state.forceId = config.forces[0]?.id ?? '';
 		this.state.projectileId = config.projectiles[0]?.id ?? '';
+		this.state.layoutId = config.layouts?.[0]?.id ?? '';
+		this.state.surfaceId = config.surfaceLayouts?.[0]?.id ?? '';
+		this.state.waterId = config.waterLayouts?.[0]?.id ?? '';
 		this.state.gravity = config.initialEnvironment.gravity;
-		this.state.airDensity = config.initialEnvironment.airDensity;
+		this.state.temperature = config.initialEnvironment.temperature - 273.15;
+		this.state.pressure = config.initialEnvironment.pressure / 100;
+		this.state.humidity = config.initialEnvironment.humidity * 100;
+		this.updateDerived();
 		this.state.windX = config.initialEnvironment.windVector.x;
 		this.state.windY = config.initialEnvironment.windVector.y;
 		this.state.windZ = config.initialEnvironment.windVector.z;
+		this.state.windProfileId =
+			config.windProfiles?.find((p) => p.profile === config.initialEnvironment.windProfile)?.id ??
+			config.windProfiles?.[0]?.id ??
+			'';
+		const turbulence = config.initialEnvironment.turbulence ?? DEFAULT_TURBULENCE;
+		this.state.turbulenceModel = turbulence.model;
+		this.state.turbulenceIntensity = turbulence.intensity * 100;
+		this.state.lengthScale = turbulence.lengthScale;
+		this.state.verticalLengthScale = turbulence.verticalLengthScale;
+		const geophysics = config.initialEnvironment.geophysics;
+		this.state.geophysics = geophysics !== undefined;
+		this.state.latitude = geophysics?.latitude ?? this.state.latitude;
+		this.state.azimuth = geophysics?.azimuth ?? this.state.azimuth;
 
 		this.pane = new Pane({ container: root, title: 'Launch Console' });
 
@@ -65,6 +141,12 @@ export class ControlsPanel {
 			}
 		});
 
+		const integratorOptions = Object.fromEntries(listIntegrators().map((integrator) => [integrator.label, integrator.id]));
+		this.pane.addBinding(this.state, 'integrator', {
+			options: integratorOptions,
+			label: 'Integrator'
+		});
+
 		this.pane.addBlade({ view: 'separator' });
 
 		const envFolder = this.pane.addFolder({ title: 'Atmospheric Envelope' });
@@ -72,8 +154,24 @@ export class ControlsPanel {
 			.addBinding(this.state, 'gravity', { min: 2, max: 15, step: 0.1, label: 'Gravity (m/s²)' })
 			.on('change', () => this.emitEnvironment());
 		envFolder
-			.addBinding(this.state, 'airDensity', { min: 0.4, max: 1.4, step: 0.01, label: 'Air Density' })
+			.addBinding(this.state, 'temperature', { min: -40, max: 50, step: 0.5, label: 'Temperature (°C)' })
+			.on('change', () => this.emitEnvironment());
+		envFolder
+			.addBinding(this.state, 'pressure', { min: 500, max: 1080, step: 1, label: 'Pressure (hPa)' })
+			.on('change', () => this.emitEnvironment());
+		envFolder
+			.addBinding(this.state, 'humidity', { min: 0, max: 100, step: 1, label: 'Humidity (%)' })
 			.on('change', () => this.emitEnvironment());
+		envFolder.addBinding(this.state, 'airDensity', {
+			readonly: true,
+			label: 'Density (kg/m³)',
+			format: (v: number) => v.toFixed(3)
+		});
+		envFolder.addBinding(this.state, 'speedOfSound', {
+			readonly: true,
+			label: 'Sound (m/s)',
+			format: (v: number) => v.toFixed(1)
+		});
 		envFolder
 			.addBinding(this.state, 'windX', { min: -12, max: 12, step: 0.1, label: 'Wind X (m/s)' })
 			.on('change', () => this.emitEnvironment());
@@ -83,18 +181,114 @@ export class ControlsPanel {
 		envFolder
 			.addBinding(this.state, 'windZ', { min: -12, max: 12, step: 0.1, label: 'Wind Z (m/s)' })
 			.on('change', () => this.emitEnvironment());
+		if (config.windProfiles?.length) {
+			const profileOptions = Object.fromEntries(config.windProfiles.map((p) => [p.label, p.id]));
+			envFolder
+				.addBinding(this.state, 'windProfileId', { options: profileOptions, label: 'Wind Profile' })
+				.on('change', () => this.emitEnvironment());
+		}
 		
-		const surfaceOptions = {
-			'Grass': 'grass',
-			'Concrete': 'concrete',
-			'Dirt': 'dirt',
-			'Ice': 'ice'
-		};
-		envFolder
-			.addBinding(this.state, 'surface', { options: surfaceOptions, label: 'Surface Type' })
-			.on('change', (ev: any) => {
-				this.config.onSurfaceChange?.(ev.value);
+		if (config.surfaceLayouts?.length) {
+			const surfaceOptions = Object.fromEntries(config.surfaceLayouts.map((layout) => [layout.label, layout.id]));
+			envFolder
+				.addBinding(this.state, 'surfaceId', { options: surfaceOptions, label: 'Ground' })
+				.on('change', (ev: any) => {
+					const layout = this.config.surfaceLayouts?.find((l) => l.id === ev.value);
+					if (layout) {
+						this.config.onSurfaceChange?.(layout);
+					}
+				});
+		}
+
+		if (config.waterLayouts?.length) {
+			const waterOptions = Object.fromEntries(config.waterLayouts.map((layout) => [layout.label, layout.id]));
+			envFolder
+				.addBinding(this.state, 'waterId', { options: waterOptions, label: 'Water' })
+				.on('change', (ev: any) => {
+					const layout = this.config.waterLayouts?.find((l) => l.id === ev.value);
+					if (layout) {
+						this.config.onWaterChange?.(layout);
+					}
+				});
+		}
+
+		if (config.layouts?.length) {
+			const layoutOptions = Object.fromEntries(config.layouts.map((layout) => [layout.label, layout.id]));
+			envFolder
+				.addBinding(this.state, 'layoutId', { options: layoutOptions, label: 'Obstacles' })
+				.on('change', (ev: any) => {
+					const layout = this.config.layouts?.find((l) => l.id === ev.value);
+					if (layout) {
+						this.config.onLayoutChange?.(layout);
+					}
+				});
+		}
+
+		const turbulenceFolder = this.pane.addFolder({ title: 'Turbulence & Gusts', expanded: false });
+		turbulenceFolder
+			.addBinding(this.state, 'turbulenceModel', {
+				options: { 'Fractal Noise': 'fractal', 'Dryden': 'dryden', 'von Kármán': 'vonKarman' },
+				label: 'Model'
+			})
+			.on('change', () => this.emitEnvironment());
+		turbulenceFolder
+			.addBinding(this.state, 'turbulenceIntensity', { min: 0, max: 50, step: 1, label: 'Intensity (%)' })
+			.on('change', () => this.emitEnvironment());
+		turbulenceFolder
+			.addBinding(this.state, 'lengthScale', { min: 1, max: 500, step: 1, label: 'Length Scale (m)' })
+			.on('change', () => this.emitEnvironment());
+		turbulenceFolder
+			.addBinding(this.state, 'verticalLengthScale', { min: 1, max: 500, step: 1, label: 'Vertical Scale (m)' })
+			.on('change', () => this.emitEnvironment());
+		turbulenceFolder
+			.addBinding(this.state, 'gustRate', { min: 0, max: 20, step: 0.5, label: 'Gusts / min' })
+			.on('change', () => this.emitEnvironment());
+		turbulenceFolder
+			.addBinding(this.state, 'gustAmplitude', { min: 0, max: 15, step: 0.5, label: 'Gust Peak (m/s)' })
+			.on('change', () => this.emitEnvironment());
+		turbulenceFolder
+			.addBinding(this.state, 'gustDuration', { min: 0.5, max: 15, step: 0.5, label: 'Gust Length (s)' })
+			.on('change', () => this.emitEnvironment());
+		turbulenceFolder
+			.addBinding(this.state, 'scriptedGustTime', { min: 0, max: 20, step: 0.1, label: 'Scripted Gust (s)' })
+			.on('change', () => this.emitEnvironment());
+		turbulenceFolder
+			.addBinding(this.state, 'scriptedGustHeading', { min: -180, max: 180, step: 5, label: 'Gust Heading (°)' })
+			.on('change', () => this.emitEnvironment());
+
+		const earthFolder = this.pane.addFolder({ title: 'Earth Model', expanded: false });
+		earthFolder
+			.addBinding(this.state, 'geophysics', { label: 'Rotating Earth' })
+			.on('change', () => this.emitEnvironment());
+		earthFolder
+			.addBinding(this.state, 'latitude', { min: -90, max: 90, step: 0.5, label: 'Latitude (°)' })
+			.on('change', () => this.emitEnvironment());
+		earthFolder
+			.addBinding(this.state, 'azimuth', { min: 0, max: 360, step: 1, label: 'Azimuth of +X (°)' })
+			.on('change', () => this.emitEnvironment());
+
+		if (config.onDispersion) {
+			const dispersionFolder = this.pane.addFolder({ title: 'Dispersion Study', expanded: false });
+			dispersionFolder.addBinding(this.state, 'dispersionRuns', { min: 10, max: 1000, step: 10, label: 'Runs' });
+			dispersionFolder.addBinding(this.state, 'dispersionKind', {
+				options: { 'Normal (1σ)': 'normal', 'Uniform (±)': 'uniform' },
+				label: 'Distribution'
+			});
+			dispersionFolder.addBinding(this.state, 'impulseError', { min: 0, max: 20, step: 0.5, label: 'Impulse (%)' });
+			dispersionFolder.addBinding(this.state, 'spinError', { min: 0, max: 50, step: 1, label: 'Spin (%)' });
+			dispersionFolder.addBinding(this.state, 'windError', { min: 0, max: 10, step: 0.1, label: 'Wind (m/s)' });
+			dispersionFolder.addBinding(this.state, 'dragError', { min: 0, max: 30, step: 0.5, label: 'Drag Cd (%)' });
+			dispersionFolder.addBlade({ view: 'button', title: 'Run Study' }).on('click', () => this.triggerDispersion());
+			dispersionFolder.addBinding(this.state, 'dispersionReport', {
+				readonly: true,
+				multiline: true,
+				rows: 7,
+				label: 'Result'
 			});
+			dispersionFolder
+				.addBlade({ view: 'button', title: 'Export Summary' })
+				.on('click', () => this.config.onDispersionExport?.());
+		}
 
 		this.pane.addBlade({ view: 'separator' });
 
@@ -120,27 +314,91 @@ export class ControlsPanel {
 		const force = this.config.forces.find((f) => f.id === this.state.forceId) ?? this.config.forces[0];
 		const projectile =
 			this.config.projectiles.find((p) => p.id === this.state.projectileId) ?? this.config.projectiles[0];
-		const tint = chroma.mix('#6bf2ff', '#f6b36b', Math.random() * 0.6).hex();
+		const tint = this.nextTint();
 		const environment = this.getEnvironment();
-		this.config.onLaunch({ force, projectile, tint, environment });
+		this.config.onLaunch({ force, projectile, tint, environment, integrator: this.state.integrator });
+	}
+
+	// Progress or the statistics of the latest study
+	showDispersion(report: string): void {
+		this.state.dispersionReport = report;
+	}
+
+	private triggerDispersion(): void {
+		const force = this.config.forces.find((f) => f.id === this.state.forceId) ?? this.config.forces[0];
+		const projectile =
+			this.config.projectiles.find((p) => p.id === this.state.projectileId) ?? this.config.projectiles[0];
+		const distribution = (value: number): Distribution =>
+			this.state.dispersionKind === 'uniform' ? { kind: 'uniform', halfWidth: value } : { kind: 'normal', sigma: value };
+		this.config.onDispersion?.(
+			{ force, projectile, environment: this.getEnvironment(), integrator: this.state.integrator },
+			{
+				runs: this.state.dispersionRuns,
+				impulse: distribution(this.state.impulseError / 100),
+				spin: distribution(this.state.spinError / 100),
+				wind: distribution(this.state.windError),
+				drag: distribution(this.state.dragError / 100)
+			}
+		);
+	}
+
+	private nextTint(): string {
+		return chroma.mix('#6bf2ff', '#f6b36b', this.random.next() * 0.6).hex();
 	}
 
 	private emitEnvironment(): void {
+		this.updateDerived();
 		this.config.onEnvironmentChange(this.getEnvironment());
 	}
 
+	// Ground-level density and speed of sound shown beside the inputs
+	private updateDerived(): void {
+		const air = sampleAtmosphere(this.getEnvironment(), 0);
+		this.state.airDensity = air.density;
+		this.state.speedOfSound = air.speedOfSound;
+	}
+
 	private getEnvironment(): EnvironmentState {
 		return {
 			gravity: this.state.gravity,
-			airDensity: this.state.airDensity,
-			windVector: new THREE.Vector3(this.state.windX, this.state.windY, this.state.windZ)
+			temperature: this.state.temperature + 273.15,
+			pressure: this.state.pressure * 100,
+			humidity: this.state.humidity / 100,
+			windVector: new THREE.Vector3(this.state.windX, this.state.windY, this.state.windZ),
+			windProfile: this.config.windProfiles?.find((p) => p.id === this.state.windProfileId)?.profile,
+			turbulence: {
+				model: this.state.turbulenceModel,
+				intensity: this.state.turbulenceIntensity / 100,
+				lengthScale: this.state.lengthScale,
+				verticalLengthScale: this.state.verticalLengthScale
+			},
+			gusts: {
+				randomRate: this.state.gustRate,
+				amplitude: this.state.gustAmplitude,
+				duration: this.state.gustDuration,
+				// One 1-cosine gust at the mean peak and length, when scheduled
+				discrete:
+					this.state.scriptedGustTime > 0
+						? [
+								{
+									start: this.state.scriptedGustTime,
+									duration: this.state.gustDuration,
+									amplitude: this.state.gustAmplitude,
+									heading: this.state.scriptedGustHeading
+								}
+							]
+						: []
+			},
+			geophysics: this.state.geophysics
+				? { latitude: this.state.latitude, azimuth: this.state.azimuth }
+				: undefined
 		};
 	}
 
 	getSettings() {
 		const force = this.config.forces.find((f) => f.id === this.state.forceId) ?? this.config.forces[0];
 		const projectile = this.config.projectiles.find((p) => p.id === this.state.projectileId) ?? this.config.projectiles[0];
-		const tint = chroma.mix('#6bf2ff', '#f6b36b', Math.random() * 0.6).hex();
+		const tint = this.nextTint();
 		return { force, projectile, tint };
 	}
 }
\ No newline at end of file
@@ -12,7 +12,7 @@ export class HUD {
     this.root.appendChild(grid);
     container.appendChild(this.root);
 
-    ['Altitude', 'Velocity X', 'Velocity Y', 'Velocity Z', 'Speed', 'Range', 'Max Height', 'Flight Time', 'Impact Speed'].forEach((label) => {
+    ['Altitude', 'Velocity X', 'Velocity Y', 'Velocity Z', 'Speed', 'Mach', 'Angle of Attack', 'Thrust', 'Mass', 'Earth Drift', 'Phase', 'Range', 'Max Height', 'Flight Time', 'Impact Speed', 'Carry', 'Rollout', 'Penetration'].forEach((label) => {
       const wrapper = document.createElement('div');
       const heading = document.createElement('span');
       heading.textContent = label.toUpperCase();
@@ -37,12 +37,26 @@ export class HUD {
       this.labels['Velocity Y'].textContent = `${sample.velocityY.toFixed(1)} m/s`;
       this.labels['Velocity Z'].textContent = `${sample.velocityZ.toFixed(1)} m/s`;
       this.labels['Speed'].textContent = `${sample.speed.toFixed(1)} m/s`;
+      this.labels['Mach'].textContent = `M ${sample.mach.toFixed(2)}`;
+      this.labels['Angle of Attack'].textContent = `${sample.angleOfAttack.toFixed(1)}°`;
+      this.labels['Thrust'].textContent = `${sample.thrust.toFixed(0)} N`;
+      this.labels['Mass'].textContent = `${sample.mass.toFixed(2)} kg`;
+      this.labels['Earth Drift'].textContent =
+        sample.driftX !== undefined
+          ? `${Math.hypot(sample.driftX, sample.driftY ?? 0, sample.driftZ ?? 0).toFixed(2)} m`
+          : '—';
+      this.labels['Phase'].textContent = sample.phase;
       this.labels['Range'].textContent = `${sample.range.toFixed(1)} m`;
     }
     if (record?.summary) {
       this.labels['Max Height'].textContent = `${record.summary.maxHeight.toFixed(1)} m`;
       this.labels['Flight Time'].textContent = `${record.summary.flightTime.toFixed(2)} s`;
       this.labels['Impact Speed'].textContent = `${record.summary.impactSpeed.toFixed(1)} m/s`;
+      this.labels['Carry'].textContent = `${record.summary.carry.toFixed(1)} m`;
+      this.labels['Rollout'].textContent = `${record.summary.rollout.toFixed(1)} m`;
+      this.labels['Penetration'].textContent = record.penetration
+        ? `${record.penetration.depth.toFixed(2)} m · ${(record.penetration.peakDeceleration / 9.81).toFixed(0)} g`
+        : '—';
     }
   }
 }
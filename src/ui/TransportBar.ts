@@ -0,0 +1,118 @@
+interface TransportBarConfig {
+  container: HTMLElement;
+  rates: number[]; // Playback rates offered, simulated seconds per wall-clock second
+  initialRate: number;
+  tick: number; // Simulated seconds per step (s)
+  onPauseChange: (paused: boolean) => void;
+  onStep: (ticks: number) => void; // Negative to step back
+  onRateChange: (rate: number) => void;
+  onSeek: (time: number) => void;
+}
+
+const STEP_COUNTS = [-10, -1, 1, 10];
+
+// Play/pause, tick stepping, playback rate and a scrubber over the recorded
+// history, with the simulated time readout. Space toggles pause and ',' and
+// '.' step one tick back and forth.
+export class TransportBar {
+  private paused = false;
+  private playButton: HTMLButtonElement;
+  private scrubber: HTMLInputElement;
+  private scrubbing = false;
+  private clock: HTMLSpanElement;
+
+  constructor(private config: TransportBarConfig) {
+    const wrapper = document.createElement('div');
+    wrapper.className = 'transport-bar';
+    config.container.appendChild(wrapper);
+
+    this.playButton = this.button(wrapper, 'Pause', () => this.setPaused(!this.paused));
+    STEP_COUNTS.forEach((count) => {
+      const button = this.button(wrapper, count > 0 ? `+${count}` : `−${-count}`, () => this.step(count));
+      const ticks = Math.abs(count);
+      button.title = `Step ${count > 0 ? 'forward' : 'back'} ${ticks} tick${ticks > 1 ? 's' : ''} (${(ticks * config.tick).toFixed(2)} s)`;
+    });
+
+    this.scrubber = document.createElement('input');
+    this.scrubber.type = 'range';
+    this.scrubber.min = '0';
+    this.scrubber.max = '0';
+    this.scrubber.step = String(config.tick);
+    this.scrubber.addEventListener('pointerdown', () => (this.scrubbing = true));
+    this.scrubber.addEventListener('pointerup', () => (this.scrubbing = false));
+    this.scrubber.addEventListener('input', () => {
+      if (!this.paused) {
+        this.setPaused(true);
+      }
+      config.onSeek(Number(this.scrubber.value));
+    });
+    wrapper.appendChild(this.scrubber);
+
+    const rate = document.createElement('select');
+    config.rates.forEach((value) => {
+      const option = document.createElement('option');
+      option.value = String(value);
+      option.textContent = `${value}×`;
+      option.selected = value === config.initialRate;
+      rate.appendChild(option);
+    });
+    rate.addEventListener('change', () => config.onRateChange(Number(rate.value)));
+    wrapper.appendChild(rate);
+
+    this.clock = document.createElement('span');
+    this.clock.className = 'transport-clock';
+    this.clock.textContent = 'T+0.00 s';
+    wrapper.appendChild(this.clock);
+
+    window.addEventListener('keydown', (event) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, select, textarea')) return;
+      if (event.code === 'Space') {
+        event.preventDefault();
+        this.setPaused(!this.paused);
+      } else if (event.key === '.') {
+        this.step(1);
+      } else if (event.key === ',') {
+        this.step(-1);
+      }
+    });
+  }
+
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    this.playButton.textContent = paused ? 'Play' : 'Pause';
+    this.playButton.classList.toggle('active', paused);
+    this.config.onPauseChange(paused);
+  }
+
+  // Simulated time and the span of history that can be scrubbed (s). The
+  // time shown may trail the end of the history while the clock runs, so
+  // whether it is rewound comes from the engine.
+  update(time: number, history: { start: number; end: number }, rewound: boolean): void {
+    this.clock.textContent = rewound ? `T+${time.toFixed(2)} / ${history.end.toFixed(2)} s` : `T+${time.toFixed(2)} s`;
+    this.clock.title = rewound
+      ? 'Resuming discards what came after. Launches in flight take any weather edits; their other parameters stay as launched.'
+      : '';
+    this.scrubber.min = String(history.start);
+    this.scrubber.max = String(history.end);
+    if (!this.scrubbing) {
+      this.scrubber.value = String(time);
+    }
+  }
+
+  // Stepping only makes sense with the clock stopped
+  private step(count: number): void {
+    if (!this.paused) {
+      this.setPaused(true);
+    }
+    this.config.onStep(count);
+  }
+
+  private button(parent: HTMLElement, label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    parent.appendChild(button);
+    return button;
+  }
+}
@@ -0,0 +1,377 @@
+import * as THREE from 'three';
+import { DispersionResult, DispersionSettings } from '../physics/dispersion';
+import { EventBus, SimulationEvents } from '../physics/events';
+import { ObstacleDefinition, Vec3Tuple } from '../physics/obstacles';
+import { createSessionSeed } from '../physics/random';
+import { DEFAULT_PLAYBACK_RATE, FlightWeather } from '../physics/simulation';
+import { SurfaceMapDefinition } from '../physics/surfaces';
+import { Heightfield } from '../physics/terrain';
+import { LaunchParameters, LaunchRecord, ProjectileSnapshot } from '../physics/types';
+import { WaterBody } from '../physics/water';
+import {
+  ControlMessage,
+  DispersionMessage,
+  DispersionRequest,
+  EngineStatus,
+  EventMessage,
+  LaunchMessage,
+  LaunchRequest,
+  RecordDelta,
+  STATE_STRIDE,
+  SetupMessage,
+  TelemetryMessage,
+  WorkerRequest,
+  WorkerResponse,
+  packEnvironment,
+  packWeather,
+  unpackState
+} from './protocol';
+
+export interface SimulationClientOptions {
+  seed?: number; // Session seed; a fresh one is drawn when omitted
+}
+
+// One physics frame as the worker posted it
+interface Frame {
+  status: EngineStatus;
+  ids: string[];
+  state: Float64Array;
+  slots: Map<string, number>; // Index of each id in ids
+  received: number; // performance.now() on arrival (ms)
+}
+
+interface PendingLaunch {
+  resolve: (record: LaunchRecord) => void;
+  reject: (error: Error) => void;
+}
+
+interface PendingStudy {
+  resolve: (result: DispersionResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (completed: number) => void;
+}
+
+const targetPosition = new THREE.Vector3();
+const targetRotation = new THREE.Quaternion();
+
+// Page side of the physics worker, standing in for SimulationEngine. Commands
+// are posted as they are made; telemetry keeps a copy of the launch records
+// and the engine status, and the last two physics frames, between which
+// update() places the projectiles at the moment the page renders.
+export class SimulationClient {
+  readonly sessionSeed: number;
+  // The worker's events, replayed as its telemetry arrives
+  readonly events = new EventBus<SimulationEvents>();
+  private worker: Worker;
+  private records: LaunchRecord[] = [];
+  private recordsById = new Map<string, LaunchRecord>();
+  private status: EngineStatus = {
+    time: 0,
+    paused: false,
+    rate: DEFAULT_PLAYBACK_RATE,
+    history: { start: 0, end: 0 },
+    rewound: false
+  };
+  private commands = 0; // Requests posted; status from telemetry sent before the latest is stale
+  private launchRequests = 0;
+  private pending = new Map<number, PendingLaunch>();
+  private studyRequests = 0;
+  private studies = new Map<number, PendingStudy>();
+  private failure?: Error; // Why the worker stopped, after which nothing it is sent will be answered
+  private previous?: Frame;
+  private latest?: Frame;
+  private jumped = false;
+  private displayTime = 0;
+  private display: ProjectileSnapshot[] = [];
+
+  constructor(options: SimulationClientOptions = {}) {
+    this.sessionSeed = options.seed ?? createSessionSeed();
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => this.receive(event.data));
+    this.worker.addEventListener('error', (event) => this.fail(new Error(event.message || 'Simulation worker failed')));
+    this.post({ type: 'init', seed: this.sessionSeed });
+  }
+
+  setTerrain(terrain: Heightfield): void {
+    // Copied: the page keeps drawing the same heights
+    this.command({ type: 'terrain', size: terrain.size, resolution: terrain.resolution, heights: terrain.heights });
+  }
+
+  setObstacles(definitions: ObstacleDefinition[]): void {
+    this.command({ type: 'obstacles', obstacles: definitions });
+  }
+
+  setSurfaceMap(definition: SurfaceMapDefinition): void {
+    this.command({ type: 'surfaces', surfaces: definition });
+  }
+
+  setWaterBodies(bodies: WaterBody[]): void {
+    this.command({ type: 'water', bodies });
+  }
+
+  // The profile and projectile must come from the catalogs, which the worker
+  // looks them up in by id. Resolves with the record once the worker has it.
+  launch(params: LaunchParameters): Promise<LaunchRecord> {
+    if (this.failure) return Promise.reject(this.failure);
+    const request = this.launchRequests++;
+    this.command({ type: 'launch', request, launch: this.launchRequest(params) });
+    return new Promise((resolve, reject) => this.pending.set(request, { resolve, reject }));
+  }
+
+  // Monte Carlo study of a launch over the engine's world, run by the worker
+  // beside the live flights. A later study supersedes this one, which rejects.
+  runDispersion(
+    params: LaunchParameters,
+    settings: DispersionSettings,
+    onProgress?: (completed: number) => void
+  ): Promise<DispersionResult> {
+    if (this.failure) return Promise.reject(this.failure);
+    const request = this.studyRequests++;
+    this.command({ type: 'dispersion', request, launch: this.launchRequest(params), settings });
+    return new Promise((resolve, reject) => this.studies.set(request, { resolve, reject, onProgress }));
+  }
+
+  pause(): void {
+    this.status.paused = true;
+    this.command({ type: 'pause' });
+  }
+
+  resume(): void {
+    this.status.paused = false;
+    this.command({ type: 'resume' });
+  }
+
+  isPaused(): boolean {
+    return this.status.paused;
+  }
+
+  setPlaybackRate(rate: number): void {
+    if (!(rate > 0)) {
+      throw new Error(`Playback rate must be positive, got ${rate}`);
+    }
+    this.status.rate = rate;
+    this.command({ type: 'rate', rate });
+  }
+
+  getPlaybackRate(): number {
+    return this.status.rate;
+  }
+
+  // Like the engine's, from a rewound moment this branches
+  stepTicks(count: number = 1): void {
+    this.status.rewound = false;
+    this.command({ type: 'step', ticks: count });
+  }
+
+  // Pauses at the moment sought, as the engine does
+  seek(time: number): void {
+    const { start, end } = this.status.history;
+    this.status.paused = true;
+    this.status.rewound = THREE.MathUtils.clamp(time, start, end) < end - 1e-9;
+    this.command({ type: 'seek', time });
+  }
+
+  setFlightWeather(weather: FlightWeather): void {
+    this.command({ type: 'weather', weather: packWeather(weather) });
+  }
+
+  getHistoryRange(): { start: number; end: number } {
+    return this.status.history;
+  }
+
+  isRewound(): boolean {
+    return this.status.rewound;
+  }
+
+  getLaunchRecords(): LaunchRecord[] {
+    return this.records;
+  }
+
+  // The moment on screen, which trails the worker's clock by up to a physics frame
+  getTime(): number {
+    return this.displayTime;
+  }
+
+  // Where the projectiles are at the moment on screen. Like the engine's, the
+  // snapshots are refreshed in place by each update.
+  getActiveProjectiles(): ProjectileSnapshot[] {
+    return this.display;
+  }
+
+  // Place the projectiles for a render at a wall-clock time (ms): from the
+  // previous physics frame towards the latest over the time the latest took to
+  // arrive, so rendering runs at its own rate a frame behind the physics.
+  // Returns whether a seek moved the clock since the last call.
+  update(now: number = performance.now()): boolean {
+    const { previous, latest } = this;
+    const jumped = this.jumped;
+    this.jumped = false;
+    if (!previous || !latest) return jumped;
+
+    const span = latest.status.time - previous.status.time;
+    const alpha =
+      latest.status.paused || span <= 0
+        ? 1
+        : Math.min(1, ((now - latest.received) / 1000) * (latest.status.rate / span));
+    this.displayTime = previous.status.time + span * alpha;
+
+    const display = this.display;
+    latest.ids.forEach((id, i) => {
+      const to = i * STATE_STRIDE;
+      const index = previous.slots.get(id);
+      const from = index === undefined ? to : index * STATE_STRIDE;
+      const origin = index === undefined ? latest.state : previous.state;
+      const snapshot = (display[i] ??= { id, position: new THREE.Vector3(), rotation: new THREE.Quaternion(), color: 0 });
+      snapshot.id = id;
+      snapshot.position.fromArray(origin, from).lerp(targetPosition.fromArray(latest.state, to), alpha);
+      snapshot.rotation.fromArray(origin, from + 3).slerp(targetRotation.fromArray(latest.state, to + 3), alpha);
+      snapshot.color = latest.state[to + 7];
+    });
+    display.length = latest.ids.length;
+    return jumped;
+  }
+
+  private receive(message: WorkerResponse): void {
+    if (message.type === 'dispersion') {
+      this.receiveStudy(message);
+      return;
+    }
+    this.applyRecords(message);
+    message.events.forEach((event) => this.replay(event));
+    message.launched.forEach(({ request, id, error }) => {
+      const pending = this.pending.get(request);
+      this.pending.delete(request);
+      const record = id !== undefined ? this.recordsById.get(id) : undefined;
+      if (record) {
+        pending?.resolve(record);
+      } else {
+        pending?.reject(new Error(error ?? `Launch ${request} has no record`));
+      }
+    });
+    if (message.acknowledged >= this.commands) {
+      this.status = { ...message.status };
+    }
+
+    const frame: Frame = {
+      status: message.status,
+      ids: message.ids,
+      state: message.state,
+      slots: new Map(message.ids.map((id, i) => [id, i])),
+      received: performance.now()
+    };
+    if (message.jumped || !this.latest) {
+      // Nothing to interpolate from across a seek
+      this.release(this.previous);
+      if (this.latest !== this.previous) this.release(this.latest);
+      this.previous = frame;
+      this.jumped ||= message.jumped;
+    } else {
+      if (this.previous !== this.latest) this.release(this.previous);
+      this.previous = this.latest;
+    }
+    this.latest = frame;
+  }
+
+  // An uncaught error in the worker: nothing in flight or asked later will be
+  // answered
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.pending.forEach((pending) => pending.reject(error));
+    this.pending.clear();
+    this.studies.forEach((study) => study.reject(error));
+    this.studies.clear();
+  }
+
+  private receiveStudy(message: DispersionMessage): void {
+    const study = this.studies.get(message.request);
+    if (!study) return;
+    study.onProgress?.(message.completed);
+    if (message.result) {
+      this.studies.delete(message.request);
+      study.resolve(message.result);
+    } else if (message.error !== undefined) {
+      this.studies.delete(message.request);
+      study.reject(new Error(message.error));
+    }
+  }
+
+  private applyRecords(message: TelemetryMessage): void {
+    message.deltas.forEach((delta) => this.applyDelta(delta));
+    if (message.records) {
+      this.records = message.records.map((id) => this.recordsById.get(id)!);
+      const kept = new Set(message.records);
+      this.recordsById.forEach((_, id) => {
+        if (!kept.has(id)) this.recordsById.delete(id);
+      });
+    }
+  }
+
+  private applyDelta(delta: RecordDelta): void {
+    let record = this.recordsById.get(delta.id);
+    if (!record) {
+      if (!delta.header) return;
+      record = {
+        ...delta.header,
+        integration: delta.integration,
+        samples: [],
+        energy: [],
+        collisions: [],
+        gusts: [],
+        propulsion: [],
+        bounces: [],
+        splashes: []
+      };
+      this.recordsById.set(delta.id, record);
+    }
+    delta.history.forEach(({ key, start, entries }) => {
+      const list = record![key] as unknown[];
+      list.length = start;
+      entries.forEach((entry) => list.push(entry));
+    });
+    record.integration = delta.integration;
+    record.summary = delta.summary;
+    record.penetration = delta.penetration;
+  }
+
+  private replay(message: EventMessage): void {
+    if (!this.events.has(message.type)) return;
+    const event = { id: message.id, time: message.time, state: unpackState(message.state) };
+    if (message.type === 'launch' || message.type === 'removal') {
+      // The record came with the same telemetry, ahead of its events
+      const record = this.recordsById.get(message.id);
+      if (record) this.events.emit(message.type, { ...event, ...message.detail, record });
+      return;
+    }
+    this.events.emit(message.type, { ...event, ...message.detail });
+  }
+
+  // Hand a frame's state buffer back to the worker to fill again
+  private release(frame: Frame | undefined): void {
+    if (!frame) return;
+    this.post({ type: 'release', buffer: frame.state.buffer as ArrayBuffer }, [frame.state.buffer as ArrayBuffer]);
+  }
+
+  private launchRequest(params: LaunchParameters): LaunchRequest {
+    return {
+      profile: params.profile.id,
+      projectile: params.projectile.id,
+      environment: packEnvironment(params.environment),
+      tint: params.tint.getHex(),
+      manualConfig: params.manualConfig && {
+        impulseVector: params.manualConfig.impulseVector.toArray() as Vec3Tuple,
+        applicationPoint: params.manualConfig.applicationPoint.toArray() as Vec3Tuple
+      },
+      integrator: params.integrator,
+      seed: params.seed
+    };
+  }
+
+  private command(message: SetupMessage | LaunchMessage | ControlMessage | DispersionRequest): void {
+    this.commands++;
+    this.post(message);
+  }
+
+  private post(message: WorkerRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(message, transfer);
+  }
+}
@@ -0,0 +1,215 @@
+import * as THREE from 'three';
+import { DispersionResult, DispersionSettings } from '../physics/dispersion';
+import { EventState, LaunchEvent, SimulationEvents } from '../physics/events';
+import { ObstacleDefinition, Vec3Tuple } from '../physics/obstacles';
+import { FlightWeather } from '../physics/simulation';
+import { SurfaceMapDefinition } from '../physics/surfaces';
+import { ContactPhase, EnvironmentState, IntegrationStats, LaunchRecord } from '../physics/types';
+import { WaterBody } from '../physics/water';
+
+// Messages between the page and the physics worker. Only plain data crosses:
+// vectors travel as tuples, catalog entries by id, and each physics frame's
+// projectile state as a Float64Array whose buffer is transferred, not copied,
+// and handed back once the page is done with it.
+
+export type QuaternionTuple = [number, number, number, number];
+
+// Per active projectile in a state buffer: position, rotation, then colour
+export const STATE_STRIDE = 8;
+
+// The engine sets windPerturbation and water itself
+export type EnvironmentMessage = Omit<EnvironmentState, 'windVector' | 'windPerturbation' | 'water'> & {
+  windVector: Vec3Tuple;
+};
+
+export type WeatherMessage = Omit<FlightWeather, 'windVector'> & { windVector: Vec3Tuple };
+
+export interface LaunchRequest {
+  profile: string; // Force profile id, looked up in the worker's catalog
+  projectile: string; // Projectile id, likewise
+  environment: EnvironmentMessage;
+  tint: number; // Hex colour
+  manualConfig?: { impulseVector: Vec3Tuple; applicationPoint: Vec3Tuple };
+  integrator?: string;
+  seed?: number;
+}
+
+export type SetupMessage =
+  | { type: 'init'; seed: number }
+  | { type: 'terrain'; size: number; resolution: number; heights: Float32Array }
+  | { type: 'obstacles'; obstacles: ObstacleDefinition[] }
+  | { type: 'surfaces'; surfaces: SurfaceMapDefinition }
+  | { type: 'water'; bodies: WaterBody[] };
+
+// request numbers the reply in the telemetry's launched list
+export interface LaunchMessage {
+  type: 'launch';
+  request: number;
+  launch: LaunchRequest;
+}
+
+export type ControlMessage =
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'rate'; rate: number }
+  | { type: 'step'; ticks: number }
+  | { type: 'seek'; time: number }
+  | { type: 'weather'; weather: WeatherMessage };
+
+// Runs alongside the live engine, a slice per physics update; a new study
+// supersedes one still running
+export interface DispersionRequest {
+  type: 'dispersion';
+  request: number;
+  launch: LaunchRequest;
+  settings: DispersionSettings;
+}
+
+// A state buffer the page has finished with, back to the worker for reuse
+export interface ReleaseMessage {
+  type: 'release';
+  buffer: ArrayBuffer;
+}
+
+export type WorkerRequest = SetupMessage | LaunchMessage | ControlMessage | DispersionRequest | ReleaseMessage;
+
+export interface EngineStatus {
+  time: number;
+  paused: boolean;
+  rate: number;
+  history: { start: number; end: number };
+  rewound: boolean;
+}
+
+export const RECORD_HISTORY = ['samples', 'energy', 'collisions', 'gusts', 'propulsion', 'bounces', 'splashes'] as const;
+
+export type RecordHistoryKey = (typeof RECORD_HISTORY)[number];
+
+export type RecordHeader = Omit<LaunchRecord, RecordHistoryKey | 'integration' | 'summary' | 'penetration'>;
+
+// What changed on one launch record since the last telemetry
+export interface RecordDelta {
+  id: string;
+  header?: RecordHeader; // The first time the record is sent
+  history: { key: RecordHistoryKey; start: number; entries: unknown[] }[]; // Cut back to start, then append
+  integration: IntegrationStats;
+  summary: LaunchRecord['summary'];
+  penetration: LaunchRecord['penetration'];
+}
+
+export interface StateMessage {
+  position: Vec3Tuple;
+  velocity: Vec3Tuple;
+  spin: Vec3Tuple;
+  rotation: QuaternionTuple;
+  mass: number;
+  phase: ContactPhase;
+}
+
+// What an event carries beyond its id, time and state. Launch and removal
+// events lose their record, which the page finds again by id.
+export type EventDetail<K extends keyof SimulationEvents> = Omit<SimulationEvents[K], keyof LaunchEvent>;
+
+// An engine event with its state flattened
+export interface EventMessageOf<K extends keyof SimulationEvents> {
+  type: K;
+  id: string;
+  time: number;
+  state: StateMessage;
+  detail: EventDetail<K>;
+}
+
+// One variant per event type, told apart by type. Written as a mapped type so
+// a message for a generic event type is still one of them.
+export type EventMessage<K extends keyof SimulationEvents = keyof SimulationEvents> = { [P in K]: EventMessageOf<P> }[K];
+
+export interface TelemetryMessage {
+  type: 'telemetry';
+  acknowledged: number; // Requests handled so far, releases aside
+  status: EngineStatus;
+  ids: string[]; // Active projectiles, in state buffer order
+  state: Float64Array;
+  records?: string[]; // Every record the engine holds, in order, when that changed
+  deltas: RecordDelta[];
+  events: EventMessage[];
+  launched: { request: number; id?: string; error?: string }[];
+  jumped: boolean; // A seek moved the clock since the last telemetry
+}
+
+// Progress after each slice of a study, then its result
+export interface DispersionMessage {
+  type: 'dispersion';
+  request: number;
+  completed: number; // Runs finished
+  result?: DispersionResult;
+  error?: string;
+}
+
+export type WorkerResponse = TelemetryMessage | DispersionMessage;
+
+export const SIMULATION_EVENT_TYPES: (keyof SimulationEvents)[] = [
+  'launch',
+  'impulseEnd',
+  'apex',
+  'landing',
+  'contact',
+  'splash',
+  'rest',
+  'exit',
+  'removal'
+];
+
+export function packEnvironment(environment: EnvironmentState): EnvironmentMessage {
+  const { windVector, windPerturbation, water, ...rest } = environment;
+  return { ...rest, windVector: windVector.toArray() as Vec3Tuple };
+}
+
+export function unpackEnvironment(message: EnvironmentMessage): EnvironmentState {
+  return { ...message, windVector: new THREE.Vector3(...message.windVector) };
+}
+
+export function packWeather(weather: FlightWeather): WeatherMessage {
+  return {
+    temperature: weather.temperature,
+    pressure: weather.pressure,
+    humidity: weather.humidity,
+    windVector: weather.windVector.toArray() as Vec3Tuple,
+    windProfile: weather.windProfile
+  };
+}
+
+export function unpackWeather(message: WeatherMessage): FlightWeather {
+  return { ...message, windVector: new THREE.Vector3(...message.windVector) };
+}
+
+export function packEvent<K extends keyof SimulationEvents>(
+  type: K,
+  event: SimulationEvents[K]
+): EventMessage<K> {
+  const { id, time, state, record, ...detail } = event as SimulationEvents[K] & { record?: LaunchRecord };
+  return {
+    type,
+    id,
+    time,
+    state: {
+      position: state.position.toArray() as Vec3Tuple,
+      velocity: state.velocity.toArray() as Vec3Tuple,
+      spin: state.spin.toArray() as Vec3Tuple,
+      rotation: state.rotation.toArray() as QuaternionTuple,
+      mass: state.mass,
+      phase: state.phase
+    },
+    detail
+  };
+}
+
+export function unpackState(message: StateMessage): EventState {
+  return {
+    position: new THREE.Vector3(...message.position),
+    velocity: new THREE.Vector3(...message.velocity),
+    spin: new THREE.Vector3(...message.spin),
+    rotation: new THREE.Quaternion(...message.rotation),
+    mass: message.mass,
+    phase: message.phase
+  };
+}
@@ -0,0 +1,325 @@
+import * as THREE from 'three';
+import { SimulationEngine } from '../physics/simulation';
+import { DispersionSettings, DispersionStudy } from '../physics/dispersion';
+import { SIMULATION_TICK } from '../physics/constants';
+import { Heightfield } from '../physics/terrain';
+import { IntegrationStats, LaunchRecord } from '../physics/types';
+import { forceProfiles } from '../data/forceProfiles';
+import { projectileCatalog } from '../data/projectileCatalog';
+import {
+  DispersionMessage,
+  EventMessage,
+  LaunchRequest,
+  RECORD_HISTORY,
+  RecordDelta,
+  SIMULATION_EVENT_TYPES,
+  STATE_STRIDE,
+  TelemetryMessage,
+  WorkerRequest,
+  packEvent,
+  unpackEnvironment,
+  unpackWeather
+} from './protocol';
+
+const LOOP_INTERVAL = SIMULATION_TICK * 1000; // ms between physics updates
+const MIN_STATE_LENGTH = 64 * STATE_STRIDE; // Smallest state buffer allocated
+const MAX_SPARE_BUFFERS = 8;
+const STUDY_SLICE = 8; // ms of dispersion runs per physics update
+
+// What the page holds of a record: lengths of its history arrays, each with
+// the last entry sent so a branch that rewrote the tail shows
+interface SentRecord {
+  lengths: number[];
+  tails: unknown[];
+  integration: IntegrationStats;
+  summary: LaunchRecord['summary'];
+  penetration: LaunchRecord['penetration'];
+}
+
+function sameIntegration(a: IntegrationStats, b: IntegrationStats): boolean {
+  return a.steps === b.steps && a.rejectedSteps === b.rejectedSteps && a.evaluations === b.evaluations && a.stepSize === b.stepSize;
+}
+
+// Catalog entries travel by id; the functions and meshes behind them stay here
+function resolveLaunch(request: LaunchRequest) {
+  const profile = forceProfiles.find((entry) => entry.id === request.profile);
+  const projectile = projectileCatalog.find((entry) => entry.id === request.projectile);
+  if (!profile) throw new Error(`Unknown force profile '${request.profile}'`);
+  if (!projectile) throw new Error(`Unknown projectile '${request.projectile}'`);
+  return {
+    profile,
+    projectile,
+    environment: unpackEnvironment(request.environment),
+    tint: new THREE.Color(request.tint),
+    manualConfig: request.manualConfig && {
+      impulseVector: new THREE.Vector3(...request.manualConfig.impulseVector),
+      applicationPoint: new THREE.Vector3(...request.manualConfig.applicationPoint)
+    },
+    integrator: request.integrator,
+    seed: request.seed
+  };
+}
+
+// Runs the engine on its own clock and posts telemetry after every update
+// that moved it or any request that changed it
+class PhysicsHost {
+  private engine: SimulationEngine;
+  private lastUpdate = performance.now();
+  private handled = 0;
+  private dirty = true;
+  private jumped = false;
+  private events: EventMessage[] = [];
+  private launched: TelemetryMessage['launched'] = [];
+  private sent = new Map<string, SentRecord>();
+  private recordIds = '';
+  private spare: ArrayBuffer[] = [];
+  private study?: { request: number; study: DispersionStudy };
+
+  constructor(seed: number) {
+    this.engine = new SimulationEngine({ seed });
+    SIMULATION_EVENT_TYPES.forEach((type) =>
+      this.engine.events.on(type, (event) => this.events.push(packEvent(type, event)))
+    );
+    setInterval(() => this.update(), LOOP_INTERVAL);
+  }
+
+  handle(message: Exclude<WorkerRequest, { type: 'init' }>): void {
+    if (message.type === 'release') {
+      if (this.spare.length < MAX_SPARE_BUFFERS) {
+        this.spare.push(message.buffer);
+      }
+      return;
+    }
+    this.handled++;
+    this.dirty = true;
+    switch (message.type) {
+      case 'terrain':
+        this.engine.setTerrain(new Heightfield(message.size, message.resolution, message.heights));
+        break;
+      case 'obstacles':
+        this.engine.setObstacles(message.obstacles);
+        break;
+      case 'surfaces':
+        this.engine.setSurfaceMap(message.surfaces);
+        break;
+      case 'water':
+        this.engine.setWaterBodies(message.bodies);
+        break;
+      case 'launch':
+        try {
+          const record = this.engine.launch(resolveLaunch(message.launch));
+          this.launched.push({ request: message.request, id: record.id });
+        } catch (error) {
+          this.launched.push({ request: message.request, error: (error as Error).message });
+        }
+        break;
+      case 'pause':
+        this.engine.pause();
+        break;
+      case 'resume':
+        // Frame time doesn't build up while paused
+        this.lastUpdate = performance.now();
+        this.engine.resume();
+        break;
+      case 'rate':
+        this.engine.setPlaybackRate(message.rate);
+        break;
+      case 'step':
+        this.engine.stepTicks(message.ticks);
+        break;
+      case 'seek':
+        this.engine.seek(message.time);
+        this.jumped = true;
+        break;
+      case 'weather':
+        this.engine.setFlightWeather(unpackWeather(message.weather));
+        break;
+      case 'dispersion':
+        this.startStudy(message.request, message.launch, message.settings);
+        break;
+    }
+  }
+
+  // The study flies over the live engine's world as it is when it starts
+  private startStudy(request: number, launch: LaunchRequest, settings: DispersionSettings): void {
+    if (this.study) {
+      this.postStudy({ request: this.study.request, completed: this.study.study.progress, error: 'Superseded by a new study' });
+      this.study = undefined;
+    }
+    try {
+      const study = new DispersionStudy(resolveLaunch(launch), settings, {
+        terrain: this.engine.getTerrain(),
+        obstacles: this.engine.getObstacles(),
+        surfaces: this.engine.getSurfaceMap(),
+        water: this.engine.getWaterBodies(),
+        bounds: this.engine.getBounds()
+      });
+      this.study = { request, study };
+    } catch (error) {
+      this.postStudy({ request, completed: 0, error: (error as Error).message });
+    }
+  }
+
+  // A slice of runs at a time, so the live engine keeps its clock
+  private advanceStudy(): void {
+    if (!this.study) return;
+    const { request, study } = this.study;
+    const start = performance.now();
+    try {
+      do {
+        study.runNext();
+      } while (!study.done && performance.now() - start < STUDY_SLICE);
+    } catch (error) {
+      // The study ends here; the live engine and its launches carry on
+      this.study = undefined;
+      this.postStudy({ request, completed: study.progress, error: (error as Error).message });
+      return;
+    }
+    if (study.done) {
+      this.study = undefined;
+      this.postStudy({ request, completed: study.progress, result: study.result() });
+    } else {
+      this.postStudy({ request, completed: study.progress });
+    }
+  }
+
+  private postStudy(message: Omit<DispersionMessage, 'type'>): void {
+    self.postMessage({ type: 'dispersion', ...message });
+  }
+
+  private update(): void {
+    const now = performance.now();
+    const advanced = this.engine.update((now - this.lastUpdate) / 1000);
+    this.lastUpdate = now;
+    if (advanced > 0 || this.dirty) {
+      this.post();
+    }
+    this.advanceStudy();
+  }
+
+  private post(): void {
+    const active = this.engine.getActiveProjectiles();
+    const state = this.acquire(active.length * STATE_STRIDE);
+    active.forEach((snapshot, i) => {
+      snapshot.position.toArray(state, i * STATE_STRIDE);
+      snapshot.rotation.toArray(state, i * STATE_STRIDE + 3);
+      state[i * STATE_STRIDE + 7] = snapshot.color;
+    });
+
+    const records = this.engine.getLaunchRecords();
+    const ids = records.map((record) => record.id);
+    const joined = ids.join(',');
+    const message: TelemetryMessage = {
+      type: 'telemetry',
+      acknowledged: this.handled,
+      status: {
+        time: this.engine.getTime(),
+        paused: this.engine.isPaused(),
+        rate: this.engine.getPlaybackRate(),
+        history: this.engine.getHistoryRange(),
+        rewound: this.engine.isRewound()
+      },
+      ids: active.map((snapshot) => snapshot.id),
+      state,
+      records: joined !== this.recordIds ? ids : undefined,
+      deltas: this.recordDeltas(records),
+      events: this.events,
+      launched: this.launched,
+      jumped: this.jumped
+    };
+    if (message.records) {
+      this.recordIds = joined;
+      this.sent.forEach((_, id) => {
+        if (!ids.includes(id)) this.sent.delete(id);
+      });
+    }
+    this.events = [];
+    this.launched = [];
+    this.jumped = false;
+    this.dirty = false;
+    self.postMessage(message, { transfer: [state.buffer] });
+  }
+
+  private recordDeltas(records: LaunchRecord[]): RecordDelta[] {
+    const deltas: RecordDelta[] = [];
+    records.forEach((record) => {
+      const sent = this.sent.get(record.id);
+      const history: RecordDelta['history'] = [];
+      RECORD_HISTORY.forEach((key, j) => {
+        const entries = record[key] as unknown[];
+        let start = sent?.lengths[j] ?? 0;
+        // Rewound and run on from there: the tail was cut and regrown
+        if (start > entries.length || (start > 0 && entries[start - 1] !== sent?.tails[j])) {
+          start = 0;
+        }
+        if (start !== entries.length || start !== sent?.lengths[j]) {
+          history.push({ key, start, entries: entries.slice(start) });
+        }
+      });
+      const changed =
+        !sent ||
+        history.length > 0 ||
+        !sameIntegration(sent.integration, record.integration) ||
+        sent.summary !== record.summary ||
+        sent.penetration !== record.penetration;
+      if (!changed) return;
+
+      deltas.push({
+        id: record.id,
+        header: sent
+          ? undefined
+          : {
+              id: record.id,
+              color: record.color,
+              profileLabel: record.profileLabel,
+              projectileLabel: record.projectileLabel,
+              sessionSeed: record.sessionSeed,
+              launchTime: record.launchTime,
+              seed: record.seed,
+              integrator: record.integrator
+            },
+        history,
+        integration: { ...record.integration },
+        summary: record.summary,
+        penetration: record.penetration
+      });
+      this.sent.set(record.id, {
+        lengths: RECORD_HISTORY.map((key) => record[key].length),
+        tails: RECORD_HISTORY.map((key) => record[key][record[key].length - 1]),
+        integration: { ...record.integration },
+        summary: record.summary,
+        penetration: record.penetration
+      });
+    });
+    return deltas;
+  }
+
+  // A returned buffer when one is big enough, otherwise a new one with room to grow
+  private acquire(length: number): Float64Array {
+    const index = this.spare.findIndex((buffer) => buffer.byteLength >= length * Float64Array.BYTES_PER_ELEMENT);
+    const buffer =
+      index >= 0
+        ? this.spare.splice(index, 1)[0]
+        : new ArrayBuffer(Math.max(length * 2, MIN_STATE_LENGTH) * Float64Array.BYTES_PER_ELEMENT);
+    return new Float64Array(buffer, 0, length);
+  }
+}
+
+let host: PhysicsHost | undefined;
+// Requests that arrived before init, handled in order once it does
+const early: Exclude<WorkerRequest, { type: 'init' }>[] = [];
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    const started = new PhysicsHost(message.seed);
+    host = started;
+    early.splice(0).forEach((queued) => started.handle(queued));
+    return;
+  }
+  if (host) {
+    host.handle(message);
+  } else {
+    early.push(message);
+  }
+});